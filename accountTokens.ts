@@ -0,0 +1,80 @@
+import { createHash, randomBytes } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { getMailer } from "./mailer";
+
+export type AuthTokenPurpose = "password_reset" | "email_verification";
+
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000, // 1 hour
+  email_verification: 48 * 60 * 60 * 1000, // 2 days
+};
+
+export function hashAuthToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Links in emails point at the frontend, which posts the token back to the API
+function frontendLink(pathname: string, token: string): string {
+  const url = new URL(pathname, process.env.FRONTEND_URL || "http://localhost:5173");
+  url.searchParams.set("token", token);
+  return url.href;
+}
+
+// Creates a token for the user's current email address, replacing any earlier
+// unused token for the same purpose, and returns the plain token.
+async function issueAuthToken(user: User & { email: string }, purpose: AuthTokenPurpose): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashAuthToken(token),
+    email: user.email,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose]),
+  });
+  return token;
+}
+
+export async function sendPasswordResetEmail(user: User & { email: string }): Promise<void> {
+  // No token is issued unless there is a transport to deliver it
+  const mailer = getMailer();
+  const token = await issueAuthToken(user, "password_reset");
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your PillCart password",
+    text: [
+      "Someone asked to reset the password for your PillCart account.",
+      `To choose a new password, open this link within the next hour:\n\n${frontendLink("/reset-password", token)}`,
+      "If this was not you, you can ignore this email; your password has not been changed.",
+    ].join("\n\n"),
+  });
+}
+
+export async function sendVerificationEmail(user: User & { email: string }): Promise<void> {
+  // No token is issued unless there is a transport to deliver it
+  const mailer = getMailer();
+  const token = await issueAuthToken(user, "email_verification");
+  await mailer.send({
+    to: user.email,
+    subject: "Confirm your PillCart email address",
+    text: [
+      "Please confirm this email address for your PillCart account.",
+      `Open this link within the next 2 days:\n\n${frontendLink("/verify-email", token)}`,
+      "You need a confirmed email address to submit prescriptions.",
+    ].join("\n\n"),
+  });
+}
+
+// Tells the current address that a change to another one was requested, so a
+// hijacked session cannot move the account away unnoticed
+export async function sendEmailChangeNotice(user: User & { email: string }, newEmail: string): Promise<void> {
+  await getMailer().send({
+    to: user.email,
+    subject: "Your PillCart email address is being changed",
+    text: [
+      `Someone asked to change the email address on your PillCart account to ${newEmail}.`,
+      "The change takes effect only once it is confirmed from the new address. Until then this address stays on the account.",
+      "If this was not you, change your password and contact support.",
+    ].join("\n\n"),
+  });
+}
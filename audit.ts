@@ -0,0 +1,139 @@
+import type { Request, RequestHandler } from "express";
+import type { AuditChanges, AuditLogEntryWithActor } from "@shared/schema";
+import { storage } from "./storage";
+import { toCsv } from "./csv";
+
+// Never written to the audit log, at any depth of an entity's state
+const REDACTED_FIELDS = new Set(["password"]);
+
+export interface AuditOptions {
+  entityType: string;
+  // Reads the entity's state. Called before the handler runs and again after
+  // it succeeds; returning undefined means the entity does not exist.
+  load?: (id: string) => Promise<unknown>;
+  // Defaults to the :id route param. When there is none (e.g. a create), the
+  // id of the entity in the response body is used.
+  entityId?: (req: Request) => string | undefined;
+  // For bulk actions: lists the entities a successful response changed, and
+  // how. Each gets its own entry; load and entityId are not used.
+  each?: (body: any) => AuditedEntity[];
+}
+
+export interface AuditedEntity {
+  entityId: string;
+  changes: AuditChanges;
+}
+
+// Converts an entity to plain JSON with dates as strings and secrets removed
+function toAuditState(value: unknown): Record<string, unknown> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  const state = JSON.parse(JSON.stringify(value, (key, field) => (REDACTED_FIELDS.has(key) ? undefined : field)));
+  return typeof state === "object" && !Array.isArray(state) ? state : { value: state };
+}
+
+// Lists the top-level fields that differ between two states of an entity
+export function diffAuditState(before: unknown, after: unknown): AuditChanges {
+  const beforeState = toAuditState(before);
+  const afterState = toAuditState(after);
+  const changes: AuditChanges = {};
+  for (const field of new Set([...Object.keys(beforeState), ...Object.keys(afterState)])) {
+    const from = beforeState[field] ?? null;
+    const to = afterState[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+  return changes;
+}
+
+async function loadState(options: AuditOptions, id: string | undefined): Promise<unknown> {
+  if (!options.load || !id) {
+    return undefined;
+  }
+  try {
+    return await options.load(id);
+  } catch {
+    // e.g. a malformed id; the handler reports that to the client
+    return undefined;
+  }
+}
+
+// Finds the id of the entity a handler responded with, e.g. { product: { id } }
+function findResponseEntityId(body: unknown): string | undefined {
+  if (!body || typeof body !== "object") {
+    return undefined;
+  }
+  if (typeof (body as any).id === "string") {
+    return (body as any).id;
+  }
+  for (const value of Object.values(body)) {
+    if (value && typeof value === "object" && typeof (value as any).id === "string") {
+      return (value as any).id;
+    }
+  }
+  return undefined;
+}
+
+// Records a successful admin action in the audit log.
+//
+// Must run after isAdmin so the actor is known. The response is held back until
+// the entry is written, so a client never sees a success that was not audited.
+export function audited(action: string, options: AuditOptions): RequestHandler {
+  return async (req, res, next) => {
+    const requestedId = options.entityId ? options.entityId(req) : req.params.id;
+    const before = await loadState(options, requestedId);
+
+    const sendJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      if (res.statusCode >= 400) {
+        return sendJson(body);
+      }
+
+      const write = async () => {
+        const entry = {
+          actorId: req.principal?.id ?? null,
+          action,
+          entityType: options.entityType,
+          ipAddress: req.ip ?? null,
+        };
+        if (options.each) {
+          await storage.createAuditLogEntries(options.each(body).map((entity) => ({ ...entry, ...entity })));
+          return;
+        }
+        const entityId = requestedId ?? findResponseEntityId(body);
+        const after = await loadState(options, entityId);
+        await storage.createAuditLogEntry({ ...entry, entityId: entityId ?? null, changes: diffAuditState(before, after) });
+      };
+      write()
+        .then(
+          () => sendJson(body),
+          (error) => {
+            console.error(`Error writing audit log entry for ${action}:`, error);
+            res.status(500);
+            sendJson({ error: "The change was saved but could not be audited" });
+          },
+        );
+      return res;
+    };
+
+    next();
+  };
+}
+
+export function auditLogToCsv(entries: AuditLogEntryWithActor[]): string {
+  const header = ["id", "createdAt", "actorId", "actorEmail", "action", "entityType", "entityId", "ipAddress", "changes"];
+  const rows = entries.map((entry) => [
+    entry.id,
+    entry.createdAt,
+    entry.actorId,
+    entry.actor?.email,
+    entry.action,
+    entry.entityType,
+    entry.entityId,
+    entry.ipAddress,
+    entry.changes,
+  ]);
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,202 @@
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { createHash } from "crypto";
+import type { Express, Request, RequestHandler } from "express";
+import type { Session } from "@shared/schema";
+import { storage } from "./storage";
+import { resolvePermissions, isAdminRole, type AdminRole, type Permission } from "./permissions";
+import { isReplitAuthEnabled, setupReplitAuth, replitAuthProvider } from "./replitAuth";
+
+// The logged-in user as seen by every route, whichever way they logged in
+export interface Principal {
+  id: string;
+  email: string | null;
+  emailVerified: boolean;
+  isAdmin: boolean;
+  role: AdminRole | null;
+  // Resolved once per request from the user's role and individual grants
+  permissions: ReadonlySet<Permission>;
+  provider: AuthProvider["name"];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: Principal;
+    }
+  }
+}
+
+// A way of logging in. Providers only identify the user; loading the user and
+// their permissions is shared.
+export interface AuthProvider {
+  name: "local" | "oidc";
+  // Returns the id of the user the request is logged in as, if any
+  authenticate(req: Request): Promise<string | undefined>;
+}
+
+// Username/password logins store the user id in the session
+const localAuthProvider: AuthProvider = {
+  name: "local",
+  async authenticate(req) {
+    return (req.session as any)?.userId;
+  },
+};
+
+const providers: AuthProvider[] = [localAuthProvider];
+
+export function getSession() {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: sessionTtl,
+    tableName: "sessions",
+  });
+  return session({
+    secret: process.env.SESSION_SECRET!,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: true,
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+// Logs the request in as a username/password user, noting where from so the
+// user can recognise the session later
+export function startLocalSession(req: Request, userId: string) {
+  const data = req.session as any;
+  data.userId = userId;
+  data.loggedInAt = new Date().toISOString();
+  data.ipAddress = req.ip;
+  data.userAgent = req.get("user-agent");
+}
+
+// Session ids are never shown to users; sessions are referred to by a hash instead
+export function hashSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex");
+}
+
+export interface SessionSummary {
+  id: string;
+  current: boolean;
+  provider: AuthProvider["name"];
+  loggedInAt: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  expiresAt: Date;
+}
+
+export function summarizeSession(row: Session, currentSid: string | undefined): SessionSummary {
+  const data = row.sess as any;
+  return {
+    id: hashSessionId(row.sid),
+    current: row.sid === currentSid,
+    provider: data.userId ? "local" : "oidc",
+    loggedInAt: data.loggedInAt ?? null,
+    ipAddress: data.ipAddress ?? null,
+    userAgent: data.userAgent ?? null,
+    expiresAt: row.expire,
+  };
+}
+
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+
+  if (isReplitAuthEnabled()) {
+    await setupReplitAuth(app);
+    providers.push(replitAuthProvider);
+  } else {
+    console.log("REPLIT_DOMAINS not set; Replit login is disabled");
+  }
+}
+
+// Works out who is making the request, or undefined for anonymous requests.
+// The result is kept on the request so later middleware does not look it up again.
+export async function resolvePrincipal(req: Request): Promise<Principal | undefined> {
+  if (req.principal) {
+    return req.principal;
+  }
+
+  for (const provider of providers) {
+    const userId = await provider.authenticate(req);
+    if (!userId) {
+      continue;
+    }
+
+    // A session can outlive its user
+    const user = await storage.getUserWithPermissions(userId);
+    if (!user || user.deletedAt) {
+      continue;
+    }
+
+    req.principal = {
+      id: user.id,
+      email: user.email,
+      emailVerified: !!user.email && !!user.emailVerifiedAt,
+      isAdmin: !!user.isAdmin,
+      role: isAdminRole(user.adminRole) ? user.adminRole : null,
+      permissions: resolvePermissions(user),
+      provider: provider.name,
+    };
+    return req.principal;
+  }
+  return undefined;
+}
+
+// For handlers behind isAuthenticated
+export function getPrincipal(req: Request): Principal {
+  if (!req.principal) {
+    throw new Error("Route requires the isAuthenticated middleware");
+  }
+  return req.principal;
+}
+
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  try {
+    if (!(await resolvePrincipal(req))) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// For actions that need a confirmed email address; runs after isAuthenticated
+export const requireVerifiedEmail: RequestHandler = (req, res, next) => {
+  if (!req.principal?.emailVerified) {
+    return res.status(403).json({ error: "Please verify your email address first", code: "email_unverified" });
+  }
+  next();
+};
+
+export const isAdmin: RequestHandler = (req, res, next) => {
+  if (!req.principal) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  if (!req.principal.isAdmin) {
+    return res.status(403).json({ error: 'Admin access required' });
+  }
+  next();
+};
+
+export const checkAdminPermission = (permission: Permission): RequestHandler => {
+  return (req, res, next) => {
+    if (!req.principal?.isAdmin) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    if (!req.principal.permissions.has(permission)) {
+      return res.status(403).json({ error: `Permission '${permission}' required` });
+    }
+
+    next();
+  };
+};
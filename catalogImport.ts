@@ -0,0 +1,283 @@
+import type { Request } from "express";
+import { z } from "zod";
+import type { AuditChanges, ProductWithRelations } from "@shared/schema";
+import { storage, type CatalogProductImport, type CatalogImportResult } from "./storage";
+import { parseCsv, toCsv } from "./csv";
+import { slugify, SLUG_PATTERN } from "./slug";
+import { toMinorUnits, formatMinorUnits } from "./money";
+import { diffAuditState } from "./audit";
+
+// Columns of a catalogue file, named as in catalog_data.json. On import Slug is
+// optional (it is derived from ProductName); exports always include it so a
+// file can be edited and imported again.
+export const CATALOG_COLUMNS = ["ProductName", "Brand", "Category", "Price(Ghc)", "Direct_Link", "Slug"] as const;
+export const MAX_CATALOG_ROWS = 5000;
+
+export type CatalogRecord = Record<string, unknown>;
+
+export class CatalogFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogFileError";
+    Object.setPrototypeOf(this, CatalogFileError.prototype);
+  }
+}
+
+// Empty cells mean "no value"
+const blankToUndefined = (value: unknown) =>
+  value === null || (typeof value === "string" && value.trim() === "") ? undefined : value;
+
+const catalogRowSchema = z.object({
+  ProductName: z.string({ required_error: "is required" }).trim().min(1, "is required").max(200),
+  Brand: z.preprocess(blankToUndefined, z.string().trim().max(100).optional()),
+  Category: z.preprocess(blankToUndefined, z.string().trim().max(100).optional()),
+  "Price(Ghc)": z.preprocess(
+    blankToUndefined,
+    z.coerce.number({ invalid_type_error: "must be a number" }).positive("must be greater than 0").max(99999999),
+  ),
+  Direct_Link: z.preprocess(blankToUndefined, z.string().trim().url("must be a URL").optional()),
+  Slug: z.preprocess(
+    blankToUndefined,
+    z.string().trim().max(200).regex(SLUG_PATTERN, "must be lowercase words separated by hyphens").optional(),
+  ),
+});
+
+export type CatalogRowAction = "create" | "update" | "skip" | "error";
+
+export interface CatalogImportRow {
+  // 1-based position among the file's products (CSV header not counted)
+  row: number;
+  slug: string | null;
+  name: string | null;
+  action: CatalogRowAction;
+  errors?: string[];
+  // The new product's fields for a create, what differs for an update
+  changes?: AuditChanges;
+}
+
+export interface CatalogImportPlan {
+  summary: Record<CatalogRowAction, number>;
+  // Brands and categories the import would create
+  newBrands: string[];
+  newCategories: string[];
+  rows: CatalogImportRow[];
+  // The rows to create or update when the plan is applied
+  entries: CatalogProductImport[];
+}
+
+// Reads an uploaded CSV (text) or JSON (array of objects) catalogue into records
+export function parseCatalogFile(body: unknown, format: "csv" | "json"): CatalogRecord[] {
+  let records: CatalogRecord[];
+  if (format === "csv") {
+    if (typeof body !== "string") {
+      throw new CatalogFileError("Expected a CSV file");
+    }
+    const [header, ...rows] = parseCsv(body);
+    if (!header) {
+      throw new CatalogFileError("The file is empty");
+    }
+    const columns = header.map((column) => column.trim());
+    for (const required of ["ProductName", "Price(Ghc)"]) {
+      if (!columns.includes(required)) {
+        throw new CatalogFileError(`Missing column '${required}'`);
+      }
+    }
+    records = rows.map((cells) => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""])));
+  } else {
+    if (!Array.isArray(body) || body.some((record) => !record || typeof record !== "object" || Array.isArray(record))) {
+      throw new CatalogFileError("Expected a JSON array of products");
+    }
+    records = body;
+  }
+
+  if (records.length > MAX_CATALOG_ROWS) {
+    throw new CatalogFileError(`A catalogue can have at most ${MAX_CATALOG_ROWS} products`);
+  }
+  return records;
+}
+
+// Reads the catalogue from an upload sent as text/csv or application/json.
+// CSV bodies are parsed by the catalogUpload middleware in routes.ts.
+export function readCatalogUpload(req: Request): CatalogRecord[] {
+  if (req.is("text/csv") || req.is("text/plain")) {
+    return parseCatalogFile(req.body, "csv");
+  }
+  if (req.is("application/json")) {
+    return parseCatalogFile(req.body, "json");
+  }
+  throw new CatalogFileError("Upload the catalogue as text/csv or application/json");
+}
+
+// Lower-cased names (and slugs, for categories) to ids. Where brand names are
+// duplicated the oldest brand wins, as in storage.applyCatalogImport.
+async function loadCatalogLookups() {
+  const brandIds = new Map<string, string>();
+  const brands = [...await storage.getBrands()].sort(
+    (a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0),
+  );
+  for (const brand of brands) {
+    const key = brand.name.trim().toLowerCase();
+    if (!brandIds.has(key)) {
+      brandIds.set(key, brand.id);
+    }
+  }
+
+  const categoryIds = new Map<string, string>();
+  for (const category of await storage.getCategories()) {
+    categoryIds.set(category.name.trim().toLowerCase(), category.id);
+    categoryIds.set(category.slug, category.id);
+  }
+
+  return {
+    brandId: (name: string | null) => (name ? brandIds.get(name.toLowerCase()) ?? null : null),
+    categoryId: (name: string | null) =>
+      name ? categoryIds.get(name.toLowerCase()) ?? categoryIds.get(slugify(name)) ?? null : null,
+  };
+}
+
+// The fields an import controls, for comparing a row with the stored product
+function comparableState(
+  entry: Omit<CatalogProductImport, "slug">,
+  brandId: string | null,
+  categoryId: string | null,
+) {
+  return {
+    name: entry.name,
+    price: entry.price,
+    imageUrl: entry.imageUrl,
+    brand: brandId ?? entry.brandName,
+    category: categoryId ?? entry.categoryName,
+  };
+}
+
+// Works out what importing the records would do, without changing anything.
+// Rows are matched to products by slug.
+export async function planCatalogImport(records: CatalogRecord[]): Promise<CatalogImportPlan> {
+  const rows: CatalogImportRow[] = [];
+  const candidates: { row: CatalogImportRow; entry: CatalogProductImport }[] = [];
+  const rowBySlug = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const row: CatalogImportRow = {
+      row: index + 1,
+      slug: null,
+      name: typeof record.ProductName === "string" ? record.ProductName.trim() || null : null,
+      action: "error",
+    };
+    rows.push(row);
+
+    const parsed = catalogRowSchema.safeParse(record);
+    if (!parsed.success) {
+      row.errors = parsed.error.issues.map((issue) => `${issue.path.join(".")} ${issue.message}`);
+      return;
+    }
+
+    const data = parsed.data;
+    const slug = data.Slug ?? slugify(data.ProductName);
+    if (!slug) {
+      row.errors = ["Slug could not be derived from ProductName"];
+      return;
+    }
+    row.slug = slug;
+    const duplicateOf = rowBySlug.get(slug);
+    if (duplicateOf !== undefined) {
+      row.errors = [`Slug '${slug}' is also used by row ${duplicateOf}; give one of them a different Slug`];
+      return;
+    }
+    rowBySlug.set(slug, row.row);
+
+    candidates.push({
+      row,
+      entry: {
+        slug,
+        name: data.ProductName,
+        price: formatMinorUnits(toMinorUnits(data["Price(Ghc)"])),
+        imageUrl: data.Direct_Link ?? null,
+        brandName: data.Brand ?? null,
+        categoryName: data.Category ?? null,
+      },
+    });
+  });
+
+  const lookups = await loadCatalogLookups();
+  const existing = new Map(
+    (await storage.getCatalogProducts(candidates.map(({ entry }) => entry.slug))).map((product) => [product.slug, product]),
+  );
+  const newBrands = new Map<string, string>();
+  const newCategories = new Map<string, string>();
+  const entries: CatalogProductImport[] = [];
+
+  for (const { row, entry } of candidates) {
+    const brandId = lookups.brandId(entry.brandName);
+    const categoryId = lookups.categoryId(entry.categoryName);
+    if (entry.brandName && !brandId) {
+      newBrands.set(entry.brandName.toLowerCase(), entry.brandName);
+    }
+    if (entry.categoryName && !categoryId) {
+      newCategories.set(slugify(entry.categoryName), entry.categoryName);
+    }
+
+    const product = existing.get(entry.slug);
+    if (!product) {
+      row.action = "create";
+      row.changes = diffAuditState(undefined, comparableState(entry, null, null));
+      entries.push(entry);
+      continue;
+    }
+
+    const before = comparableState(
+      { name: product.name, price: product.price, imageUrl: product.imageUrl, brandName: null, categoryName: null },
+      product.brandId,
+      product.categoryId,
+    );
+    const changes = diffAuditState(before, comparableState(entry, brandId, categoryId));
+    if (Object.keys(changes).length === 0) {
+      row.action = "skip";
+      continue;
+    }
+    // Show names rather than ids
+    if (changes.brand) {
+      changes.brand = { before: product.brand?.name ?? null, after: entry.brandName };
+    }
+    if (changes.category) {
+      changes.category = { before: product.category?.name ?? null, after: entry.categoryName };
+    }
+    row.action = "update";
+    row.changes = changes;
+    entries.push(entry);
+  }
+
+  const summary: Record<CatalogRowAction, number> = { create: 0, update: 0, skip: 0, error: 0 };
+  rows.forEach((row) => summary[row.action]++);
+
+  return {
+    summary,
+    newBrands: Array.from(newBrands.values()),
+    newCategories: Array.from(newCategories.values()),
+    rows,
+    entries,
+  };
+}
+
+export async function applyCatalogImport(plan: CatalogImportPlan): Promise<CatalogImportResult> {
+  return await storage.applyCatalogImport(plan.entries);
+}
+
+export function toCatalogRecord(product: ProductWithRelations): Record<typeof CATALOG_COLUMNS[number], string | number | null> {
+  return {
+    ProductName: product.name,
+    Brand: product.brand?.name ?? null,
+    Category: product.category?.name ?? null,
+    "Price(Ghc)": Number(product.price),
+    Direct_Link: product.imageUrl,
+    Slug: product.slug,
+  };
+}
+
+export function catalogToCsv(products: ProductWithRelations[]): string {
+  const rows = products.map((product) => {
+    const record = toCatalogRecord(product);
+    return CATALOG_COLUMNS.map((column) => record[column]);
+  });
+  return toCsv([[...CATALOG_COLUMNS], ...rows]);
+}
@@ -0,0 +1,87 @@
+// CSV reading and writing (RFC 4180: comma separated, double-quoted fields,
+// "" for a quote inside a quoted field)
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Stop spreadsheet applications from evaluating cells as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(toCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export class CsvParseError extends Error {
+  constructor(public readonly line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = "CsvParseError";
+    Object.setPrototypeOf(this, CsvParseError.prototype);
+  }
+}
+
+// Splits CSV text into rows of fields. Blank lines are skipped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  // Skip a byte order mark left by spreadsheet exports
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      if (field !== "") {
+        throw new CsvParseError(line, "unexpected quote inside a field");
+      }
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new CsvParseError(line, "unterminated quoted field");
+  }
+  if (field !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
@@ -56,6 +56,12 @@ export async function testDatabaseConnection(): Promise<boolean> {
   }
 }
 
+// Enables the Postgres extensions the app relies on (pg_trgm powers fuzzy
+// product search). drizzle-kit push does not manage extensions.
+export async function ensureDatabaseExtensions(): Promise<void> {
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+}
+
 // Graceful shutdown function
 export async function closeDatabaseConnection(): Promise<void> {
   try {
@@ -0,0 +1,204 @@
+import type { FixtureSet } from "./types";
+
+// A browsable catalogue for local development. Stock, ratings and review
+// counts are fixed so every developer sees the same shop.
+export const developmentFixtures: FixtureSet = {
+  description: "Sample pharmacy catalogue for local development",
+  categories: [
+    { name: "Vitamins & Multivitamins", slug: "vitamins-multivitamins", description: "Essential vitamins and multivitamin supplements for daily health" },
+    { name: "Probiotics & Digestive Health", slug: "probiotics-digestive-health", description: "Probiotic supplements and digestive health products" },
+    { name: "Dietary Supplements", slug: "dietary-supplements", description: "General dietary and nutritional supplements" },
+    { name: "Joint, Bone & Muscle Support", slug: "joint-bone-muscle-support", description: "Supplements for joint, bone and muscle health" },
+    { name: "Hair, Skin & Nails", slug: "hair-skin-nails", description: "Beauty supplements for hair, skin and nail health" },
+    { name: "Pain Relief", slug: "pain-relief", description: "Over-the-counter pain relief medications" },
+    { name: "Cold, Cough & Allergy", slug: "cold-cough-allergy", description: "Cold, cough and allergy relief medications" },
+    { name: "Urinary Health & Cranberry", slug: "urinary-health-cranberry", description: "Urinary tract health and cranberry supplements" },
+    { name: "Skin Care & Acne", slug: "skin-care-acne", description: "Topical skin care and acne treatment products" },
+    { name: "Women's Health & Feminine Care", slug: "womens-health-feminine-care", description: "Women's health and feminine care products" },
+    { name: "First Aid & Wound Care", slug: "first-aid-wound-care", description: "First aid supplies and wound care products" },
+    { name: "Digestive & Antacid", slug: "digestive-antacid", description: "Digestive aids and antacid medications" },
+    { name: "Heart Health & CoQ10", slug: "heart-health-coq10", description: "Heart health supplements including CoQ10" },
+    { name: "Oral Care", slug: "oral-care", description: "Oral and dental care products" },
+    { name: "Minerals & Trace Elements", slug: "minerals-trace-elements", description: "Important minerals and trace elements for optimal body function" },
+    { name: "Herbal & Natural Supplements", slug: "herbal-natural-supplements", description: "Natural herbal supplements and botanical extracts" },
+    { name: "General Health", slug: "general-health", description: "General health and wellness products" },
+  ],
+  brands: [
+    { name: "Nature Made", description: "Quality Nature Made pharmaceutical products" },
+    { name: "Centrum", description: "Quality Centrum pharmaceutical products" },
+    { name: "Culturelle", description: "Quality Culturelle pharmaceutical products" },
+    { name: "Tylenol", description: "Quality Tylenol pharmaceutical products" },
+    { name: "Advil", description: "Quality Advil pharmaceutical products" },
+    { name: "Zyrtec", description: "Quality Zyrtec pharmaceutical products" },
+    { name: "Neutrogena", description: "Quality Neutrogena pharmaceutical products" },
+    { name: "Band-Aid", description: "Quality Band-Aid pharmaceutical products" },
+    { name: "Tums", description: "Quality Tums pharmaceutical products" },
+    { name: "Qunol", description: "Quality Qunol pharmaceutical products" },
+    { name: "Sensodyne", description: "Quality Sensodyne pharmaceutical products" },
+    { name: "Generic", description: "Quality generic pharmaceutical products" },
+  ],
+  products: [
+    {
+      slug: "nature-made-vitamin-c-500mg-100-tablets",
+      name: "Nature Made Vitamin C 500mg, 100 Tablets",
+      category: "vitamins-multivitamins",
+      brand: "Nature Made",
+      price: "85.00",
+      stockQuantity: 120,
+      dosage: "500mg",
+      rating: "4.7",
+      reviewCount: 312,
+      reorderThreshold: 20,
+    },
+    {
+      slug: "centrum-adult-multivitamin-200-tablets",
+      name: "Centrum Adult Multivitamin, 200 Tablets",
+      category: "vitamins-multivitamins",
+      brand: "Centrum",
+      price: "195.00",
+      stockQuantity: 60,
+      dosage: "200 tablets",
+      rating: "4.6",
+      reviewCount: 508,
+      reorderThreshold: 15,
+    },
+    {
+      slug: "culturelle-daily-probiotic-30-capsules",
+      name: "Culturelle Daily Probiotic, 30 Capsules",
+      category: "probiotics-digestive-health",
+      brand: "Culturelle",
+      price: "150.00",
+      stockQuantity: 45,
+      dosage: "30 capsules",
+      rating: "4.5",
+      reviewCount: 187,
+    },
+    {
+      slug: "nature-made-fish-oil-1200mg-100-softgels",
+      name: "Nature Made Fish Oil 1200mg, 100 Softgels",
+      category: "dietary-supplements",
+      brand: "Nature Made",
+      price: "110.00",
+      stockQuantity: 80,
+      dosage: "1200mg",
+      rating: "4.4",
+      reviewCount: 96,
+    },
+    {
+      slug: "tylenol-extra-strength-500mg-100-caplets",
+      name: "Tylenol Extra Strength 500mg, 100 Caplets",
+      category: "pain-relief",
+      brand: "Tylenol",
+      price: "65.00",
+      stockQuantity: 150,
+      dosage: "500mg",
+      rating: "4.8",
+      reviewCount: 642,
+      reorderThreshold: 30,
+    },
+    {
+      slug: "advil-ibuprofen-200mg-50-tablets",
+      name: "Advil Ibuprofen 200mg, 50 Tablets",
+      category: "pain-relief",
+      brand: "Advil",
+      price: "48.00",
+      stockQuantity: 8,
+      dosage: "200mg",
+      rating: "4.7",
+      reviewCount: 421,
+      reorderThreshold: 10,
+    },
+    {
+      slug: "zyrtec-cetirizine-10mg-30-tablets",
+      name: "Zyrtec Cetirizine 10mg, 30 Tablets",
+      category: "cold-cough-allergy",
+      brand: "Zyrtec",
+      price: "72.00",
+      stockQuantity: 70,
+      dosage: "10mg",
+      rating: "4.6",
+      reviewCount: 233,
+    },
+    {
+      slug: "neutrogena-oil-free-acne-wash-269ml",
+      name: "Neutrogena Oil-Free Acne Wash, 269ml",
+      category: "skin-care-acne",
+      brand: "Neutrogena",
+      price: "90.00",
+      stockQuantity: 0,
+      dosage: "269ml",
+      rating: "4.3",
+      reviewCount: 154,
+    },
+    {
+      slug: "band-aid-flexible-fabric-bandages-30-count",
+      name: "Band-Aid Flexible Fabric Bandages, 30 Count",
+      category: "first-aid-wound-care",
+      brand: "Band-Aid",
+      price: "35.00",
+      stockQuantity: 200,
+      dosage: "30 count",
+      rating: "4.8",
+      reviewCount: 377,
+    },
+    {
+      slug: "tums-extra-strength-750mg-96-tablets",
+      name: "Tums Extra Strength 750mg, 96 Tablets",
+      category: "digestive-antacid",
+      brand: "Tums",
+      price: "42.00",
+      stockQuantity: 95,
+      dosage: "750mg",
+      rating: "4.5",
+      reviewCount: 201,
+    },
+    {
+      slug: "qunol-ultra-coq10-100mg-60-softgels",
+      name: "Qunol Ultra CoQ10 100mg, 60 Softgels",
+      category: "heart-health-coq10",
+      brand: "Qunol",
+      price: "160.00",
+      stockQuantity: 35,
+      dosage: "100mg",
+      rating: "4.6",
+      reviewCount: 88,
+    },
+    {
+      slug: "sensodyne-repair-protect-toothpaste-75ml",
+      name: "Sensodyne Repair & Protect Toothpaste, 75ml",
+      category: "oral-care",
+      brand: "Sensodyne",
+      price: "38.00",
+      stockQuantity: 110,
+      dosage: "75ml",
+      rating: "4.7",
+      reviewCount: 265,
+    },
+    {
+      slug: "amoxicillin-500mg-21-capsules",
+      name: "Amoxicillin 500mg, 21 Capsules",
+      category: "general-health",
+      brand: "Generic",
+      price: "30.00",
+      stockQuantity: 60,
+      dosage: "500mg",
+      description: "Antibiotic for bacterial infections. Prescription only.",
+      requiresPrescription: true,
+      rating: "4.4",
+      reviewCount: 52,
+    },
+    {
+      slug: "metformin-500mg-60-tablets",
+      name: "Metformin 500mg, 60 Tablets",
+      category: "general-health",
+      brand: "Generic",
+      price: "25.00",
+      stockQuantity: 40,
+      dosage: "500mg",
+      description: "Treatment for type 2 diabetes. Prescription only.",
+      requiresPrescription: true,
+      rating: "4.5",
+      reviewCount: 37,
+    },
+  ],
+};
@@ -0,0 +1,16 @@
+import type { FixtureSet } from "./types";
+import { developmentFixtures } from "./development";
+import { testFixtures } from "./test";
+
+export type { FixtureSet, FixtureProduct } from "./types";
+
+export const FIXTURE_SETS = {
+  development: developmentFixtures,
+  test: testFixtures,
+} satisfies Record<string, FixtureSet>;
+export type FixtureSetName = keyof typeof FIXTURE_SETS;
+export const FIXTURE_SET_NAMES = Object.keys(FIXTURE_SETS) as FixtureSetName[];
+
+export function isFixtureSetName(value: string): value is FixtureSetName {
+  return Object.prototype.hasOwnProperty.call(FIXTURE_SETS, value);
+}
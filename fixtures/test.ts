@@ -0,0 +1,64 @@
+import type { FixtureSet } from "./types";
+
+// Small, fixed catalogue for automated tests: one product for each case the
+// storefront and checkout treat differently
+export const testFixtures: FixtureSet = {
+  description: "Minimal catalogue for automated tests",
+  categories: [
+    { name: "Pain Relief", slug: "pain-relief", description: "Test category" },
+    { name: "Antibiotics", slug: "antibiotics", description: "Test category for prescription-only products" },
+  ],
+  brands: [
+    { name: "Test Pharma", description: "Test brand" },
+    { name: "Other Pharma", description: "Second test brand" },
+  ],
+  products: [
+    {
+      slug: "test-paracetamol-500mg",
+      name: "Test Paracetamol 500mg",
+      category: "pain-relief",
+      brand: "Test Pharma",
+      price: "10.00",
+      stockQuantity: 100,
+      dosage: "500mg",
+      reorderThreshold: 10,
+    },
+    {
+      slug: "test-ibuprofen-200mg",
+      name: "Test Ibuprofen 200mg",
+      category: "pain-relief",
+      brand: "Other Pharma",
+      price: "12.50",
+      stockQuantity: 3,
+      dosage: "200mg",
+      reorderThreshold: 5,
+    },
+    {
+      slug: "test-amoxicillin-500mg",
+      name: "Test Amoxicillin 500mg",
+      category: "antibiotics",
+      brand: "Test Pharma",
+      price: "35.00",
+      stockQuantity: 50,
+      dosage: "500mg",
+      requiresPrescription: true,
+    },
+    {
+      slug: "test-out-of-stock",
+      name: "Test Out Of Stock Syrup",
+      category: "pain-relief",
+      brand: "Other Pharma",
+      price: "8.00",
+      stockQuantity: 0,
+    },
+    {
+      slug: "test-discontinued",
+      name: "Test Discontinued Tablets",
+      category: "pain-relief",
+      brand: "Test Pharma",
+      price: "5.00",
+      stockQuantity: 20,
+      isActive: false,
+    },
+  ],
+};
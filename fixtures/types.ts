@@ -0,0 +1,28 @@
+import type { InsertBrand, InsertCategory } from "@shared/schema";
+
+// A product in a fixture set. Categories are referred to by slug and brands by
+// name, so a fixture reads the same whatever ids the database assigns.
+export interface FixtureProduct {
+  slug: string;
+  name: string;
+  category: string;
+  brand: string;
+  price: string;
+  stockQuantity: number;
+  dosage?: string;
+  shortDescription?: string;
+  description?: string;
+  requiresPrescription?: boolean;
+  isActive?: boolean;
+  reorderThreshold?: number;
+  rating?: string;
+  reviewCount?: number;
+  imageUrl?: string;
+}
+
+export interface FixtureSet {
+  description: string;
+  categories: InsertCategory[];
+  brands: InsertBrand[];
+  products: FixtureProduct[];
+}
@@ -1,8 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import path from "path";
-import { registerRoutes } from "./routes";
+import { registerRoutes, CATALOG_IMPORT_PATH } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { testDatabaseConnection } from "./db";
+import { testDatabaseConnection, ensureDatabaseExtensions } from "./db";
+import { storage } from "./storage";
+import { startStockAlertScheduler } from "./stockAlerts";
+import { getMailer, MailNotConfiguredError } from "./mailer";
 
 const app = express();
 
@@ -39,7 +42,19 @@ app.use((req, res, next) => {
   next();
 });
 
-app.use(express.json());
+const jsonBody = express.json({
+  // Keep the raw body so webhook signatures (e.g. Stripe) can be verified
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  },
+});
+// Catalogue imports parse their own, larger, bodies
+app.use((req, res, next) => {
+  if (req.path === CATALOG_IMPORT_PATH || req.path.startsWith(`${CATALOG_IMPORT_PATH}/`)) {
+    return next();
+  }
+  jsonBody(req, res, next);
+});
 app.use(express.urlencoded({ extended: false }));
 
 // Serve attached_assets directory
@@ -77,8 +92,20 @@ app.use((req, res, next) => {
 
 (async () => {
   try {
-    // Test database connection before starting server
     console.log('🚀 Starting server...');
+
+    // Password reset and verification links must be delivered, not logged
+    try {
+      getMailer();
+    } catch (error) {
+      if (error instanceof MailNotConfiguredError) {
+        console.error(`❌ ${error.message}. Server will not start.`);
+        process.exit(1);
+      }
+      throw error;
+    }
+
+    // Test database connection before starting server
     const dbConnected = await testDatabaseConnection();
     
     if (!dbConnected) {
@@ -86,7 +113,15 @@ app.use((req, res, next) => {
       process.exit(1);
     }
 
+    await ensureDatabaseExtensions();
+
+    const openingBalances = await storage.backfillOpeningStockBalances();
+    if (openingBalances > 0) {
+      console.log(`📦 Recorded opening stock balances for ${openingBalances} product(s)`);
+    }
+
     const server = await registerRoutes(app);
+    startStockAlertScheduler();
 
     app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       const status = err.status || err.statusCode || 500;
@@ -0,0 +1,27 @@
+// Stock movements. Every change to a product's stock is recorded as a
+// movement with a signed quantity; products.stockQuantity is the running total.
+//
+// - receipt: stock delivered by a supplier (+)
+// - sale: stock reserved by a customer order (-)
+// - return: stock put back, e.g. when an order is cancelled (+)
+// - adjustment: stock count correction (+ or -)
+// - write_off: damaged, expired or lost stock (-)
+export const INVENTORY_MOVEMENT_TYPES = ["receipt", "sale", "return", "adjustment", "write_off"] as const;
+export type InventoryMovementType = typeof INVENTORY_MOVEMENT_TYPES[number];
+
+const MOVEMENT_SIGNS: Record<InventoryMovementType, 1 | -1 | 0> = {
+  receipt: 1,
+  sale: -1,
+  return: 1,
+  adjustment: 0,
+  write_off: -1,
+};
+
+// Checks the quantity has the sign the movement type requires. Zero is never valid.
+export function isValidMovementQuantity(type: InventoryMovementType, quantity: number): boolean {
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    return false;
+  }
+  const sign = MOVEMENT_SIGNS[type];
+  return sign === 0 || Math.sign(quantity) === sign;
+}
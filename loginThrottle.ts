@@ -0,0 +1,90 @@
+import type { Request } from "express";
+import type { LoginLockout } from "@shared/schema";
+import { storage, type LoginThrottleKey } from "./storage";
+
+// Failures are counted per account (the submitted username, whether or not it
+// exists) and per IP address. Once a counter passes its free attempts, each
+// further failure locks that key out for twice as long as the previous one.
+//
+// Each attempt is counted as a failure before the password is checked (see
+// reserveLoginAttempt), so parallel guesses cannot all pass the check before
+// any failure is recorded. A correct password takes the failure back.
+export type LoginLockoutScope = "account" | "ip";
+
+interface ThrottlePolicy {
+  freeFailures: number;
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+}
+
+const POLICIES: Record<LoginLockoutScope, ThrottlePolicy> = {
+  account: { freeFailures: 5, baseLockoutMs: 30 * 1000, maxLockoutMs: 60 * 60 * 1000 },
+  // Shared addresses (offices, mobile carriers) get more room before lockout
+  ip: { freeFailures: 20, baseLockoutMs: 30 * 1000, maxLockoutMs: 60 * 60 * 1000 },
+};
+
+// A failure this long after the previous one starts the count again
+export const LOGIN_FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+export function lockoutDuration(scope: LoginLockoutScope, failureCount: number): number {
+  const policy = POLICIES[scope];
+  const excess = failureCount - policy.freeFailures;
+  if (excess <= 0) {
+    return 0;
+  }
+  return Math.min(policy.baseLockoutMs * 2 ** (excess - 1), policy.maxLockoutMs);
+}
+
+export function normalizeLoginName(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+function throttleKeys(username: string, ipAddress: string | undefined): LoginThrottleKey[] {
+  const keys: LoginThrottleKey[] = [{ scope: "account", key: normalizeLoginName(username) }];
+  if (ipAddress) {
+    keys.push({ scope: "ip", key: ipAddress });
+  }
+  return keys;
+}
+
+export interface LoginAttemptTicket {
+  // Seconds the caller must wait before trying again; 0 when the attempt may proceed
+  retryAfter: number;
+  counters: LoginLockout[];
+}
+
+// Reserves a login attempt, counting it as a failure, before the password is
+// checked. When the username or IP is locked out nothing is counted and
+// retryAfter says how long to wait.
+export async function reserveLoginAttempt(username: string, ipAddress: string | undefined): Promise<LoginAttemptTicket> {
+  const now = new Date();
+  const { lockedUntil, counters } = await storage.reserveLoginAttempt(
+    throttleKeys(username, ipAddress),
+    now,
+    LOGIN_FAILURE_WINDOW_MS,
+    lockoutDuration,
+  );
+  const retryAfter = lockedUntil ? Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000)) : 0;
+  return { retryAfter, counters };
+}
+
+// Logs a reserved attempt's outcome. A success releases the reservation.
+export async function recordLoginAttempt(
+  req: Request,
+  username: string,
+  userId: string | null,
+  ticket: LoginAttemptTicket,
+  succeeded: boolean,
+): Promise<void> {
+  await storage.createLoginAttempt({
+    username: normalizeLoginName(username),
+    userId,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get("user-agent") ?? null,
+    succeeded,
+  });
+
+  if (succeeded) {
+    await storage.releaseLoginAttempt(ticket.counters);
+  }
+}
@@ -0,0 +1,18 @@
+// Prices are stored as decimal strings (e.g. "12.50") in Ghana cedis.
+// Arithmetic is done in pesewas (minor units) to avoid floating point drift.
+
+export function toMinorUnits(amount: string | number | null | undefined): number {
+  if (amount === null || amount === undefined || amount === "") {
+    return 0;
+  }
+  return Math.round(Number(amount) * 100);
+}
+
+export function formatMinorUnits(minorUnits: number): string {
+  return (minorUnits / 100).toFixed(2);
+}
+
+// Computes the total of a price multiplied by a quantity, as a decimal string.
+export function lineTotal(price: string | number, quantity: number): string {
+  return formatMinorUnits(toMinorUnits(price) * quantity);
+}
@@ -1,18 +1,20 @@
 import { File } from "@google-cloud/storage";
+import { storage } from "./storage";
+import { isPermission } from "./permissions";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
 // The type of the access group.
 //
-// Can be flexibly defined according to the use case.
-//
-// Examples:
-// - USER_LIST: the users from a list stored in the database;
-// - EMAIL_DOMAIN: the users whose email is in a specific domain;
-// - GROUP_MEMBER: the users who are members of a specific group;
-// - SUBSCRIBER: the users who are subscribers of a specific service / content
-//   creator.
-export enum ObjectAccessGroupType {}
+// - ADMIN_PERMISSION: admins holding a given admin permission (e.g. pharmacists
+//   with "view_prescriptions");
+// - USER_LIST: an explicit list of users;
+// - EMAIL_DOMAIN: the users whose email is in a specific domain.
+export enum ObjectAccessGroupType {
+  ADMIN_PERMISSION = "ADMIN_PERMISSION",
+  USER_LIST = "USER_LIST",
+  EMAIL_DOMAIN = "EMAIL_DOMAIN",
+}
 
 // The logic user group that can access the object.
 export interface ObjectAccessGroup {
@@ -20,18 +22,12 @@ export interface ObjectAccessGroup {
   type: ObjectAccessGroupType;
   // The logic id that is enough to identify the qualified group members.
   //
-  // It may have different format for different types. For example:
-  // - for USER_LIST, the id could be the user list db entity id, and the
-  //   user list db entity could contain a bunch of user ids. User needs
-  //   to be a member of the user list to be able to access the object.
-  // - for EMAIL_DOMAIN, the id could be the email domain, and the user needs
-  //   to have an email with the domain to be able to access the object.
-  // - for GROUP_MEMBER, the id could be the group db entity id, and the
-  //   group db entity could contain a bunch of user ids. User needs to be
-  //   a member of the group to be able to access the object.
-  // - for SUBSCRIBER, the id could be the subscriber db entity id, and the
-  //   subscriber db entity could contain a bunch of user ids. User needs to
-  //   be a subscriber to be able to access the object.
+  // - for ADMIN_PERMISSION, the id is the permission name, and the user needs
+  //   to be an admin holding that permission.
+  // - for USER_LIST, the id is a comma-separated list of user ids, and the user
+  //   needs to be one of them.
+  // - for EMAIL_DOMAIN, the id is the email domain (e.g. "pillcart.com"), and
+  //   the user needs to have an email with the domain.
   id: string;
 }
 
@@ -82,26 +78,109 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+// Admins holding the admin permission named by the group id.
+class AdminPermissionAccessGroup extends BaseObjectAccessGroup {
+  constructor(permission: string) {
+    super(ObjectAccessGroupType.ADMIN_PERMISSION, permission);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    return isPermission(this.id) && storage.hasAdminPermission(userId, this.id);
+  }
+}
+
+// The users listed (comma-separated) in the group id.
+class UserListAccessGroup extends BaseObjectAccessGroup {
+  constructor(userIds: string) {
+    super(ObjectAccessGroupType.USER_LIST, userIds);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const userIds = this.id.split(",").map((id) => id.trim());
+    if (!userIds.includes(userId)) {
+      return false;
+    }
+    // Deleted users lose access even if they are still listed
+    return !!(await storage.getUser(userId));
+  }
+}
+
+// The users whose verified email address is in the domain named by the group id.
+// An unverified address proves nothing about who controls it.
+class EmailDomainAccessGroup extends BaseObjectAccessGroup {
+  constructor(domain: string) {
+    super(ObjectAccessGroupType.EMAIL_DOMAIN, domain.toLowerCase());
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    return !!user?.email && !!user.emailVerifiedAt && user.email.toLowerCase().endsWith(`@${this.id}`);
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
-    // Implement the case for each type of access group to instantiate.
-    //
-    // For example:
-    // case "USER_LIST":
-    //   return new UserListAccessGroup(group.id);
-    // case "EMAIL_DOMAIN":
-    //   return new EmailDomainAccessGroup(group.id);
-    // case "GROUP_MEMBER":
-    //   return new GroupMemberAccessGroup(group.id);
-    // case "SUBSCRIBER":
-    //   return new SubscriberAccessGroup(group.id);
+    case ObjectAccessGroupType.ADMIN_PERMISSION:
+      return new AdminPermissionAccessGroup(group.id);
+    case ObjectAccessGroupType.USER_LIST:
+      return new UserListAccessGroup(group.id);
+    case ObjectAccessGroupType.EMAIL_DOMAIN:
+      return new EmailDomainAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
 }
 
+export function isSameAclRule(a: ObjectAclRule, b: ObjectAclRule): boolean {
+  return (
+    a.group.type === b.group.type &&
+    a.group.id === b.group.id &&
+    a.permission === b.permission
+  );
+}
+
+// Adds an ACL rule to the object's policy. The object must already have a policy.
+export async function addObjectAclRule(
+  objectFile: File,
+  rule: ObjectAclRule,
+): Promise<ObjectAclPolicy> {
+  const aclPolicy = await getObjectAclPolicy(objectFile);
+  if (!aclPolicy) {
+    throw new Error(`Object has no ACL policy: ${objectFile.name}`);
+  }
+
+  // Fail early on unknown group types instead of storing an unusable rule
+  createObjectAccessGroup(rule.group);
+
+  const aclRules = aclPolicy.aclRules || [];
+  if (!aclRules.some((existing) => isSameAclRule(existing, rule))) {
+    aclRules.push(rule);
+  }
+  const updatedPolicy = { ...aclPolicy, aclRules };
+  await setObjectAclPolicy(objectFile, updatedPolicy);
+  return updatedPolicy;
+}
+
+// Removes an ACL rule from the object's policy.
+export async function removeObjectAclRule(
+  objectFile: File,
+  rule: ObjectAclRule,
+): Promise<ObjectAclPolicy> {
+  const aclPolicy = await getObjectAclPolicy(objectFile);
+  if (!aclPolicy) {
+    throw new Error(`Object has no ACL policy: ${objectFile.name}`);
+  }
+
+  const updatedPolicy = {
+    ...aclPolicy,
+    aclRules: (aclPolicy.aclRules || []).filter((existing) => !isSameAclRule(existing, rule)),
+  };
+  await setObjectAclPolicy(objectFile, updatedPolicy);
+  return updatedPolicy;
+}
+
 // Sets the ACL policy to the object metadata.
 export async function setObjectAclPolicy(
   objectFile: File,
@@ -1,16 +1,15 @@
 import { Storage, File } from "@google-cloud/storage";
 import { Response } from "express";
 import { randomUUID } from "crypto";
-// Simple ACL types for product image management
-export interface ObjectAclPolicy {
-  owner: string;
-  visibility: "public" | "private";
-}
-
-export enum ObjectPermission {
-  READ = "read",
-  WRITE = "write",
-}
+import {
+  ObjectAclPolicy,
+  ObjectAclRule,
+  ObjectPermission,
+  canAccessObject,
+  getObjectAclPolicy,
+  isSameAclRule,
+  setObjectAclPolicy,
+} from "./objectAcl";
 
 const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
 
@@ -41,6 +40,34 @@ export class ObjectNotFoundError extends Error {
   }
 }
 
+export class ObjectOwnershipError extends Error {
+  constructor() {
+    super("Object belongs to another user");
+    this.name = "ObjectOwnershipError";
+    Object.setPrototypeOf(this, ObjectOwnershipError.prototype);
+  }
+}
+
+export class ObjectPrivateError extends Error {
+  constructor() {
+    super("Object is private and cannot be made public");
+    this.name = "ObjectPrivateError";
+    Object.setPrototypeOf(this, ObjectPrivateError.prototype);
+  }
+}
+
+// An object can be claimed while it has no policy (a fresh upload) or by its
+// owner. A private object is never made public: it may be a prescription scan,
+// and its ACL rules are what let pharmacists read it.
+function checkObjectClaim(existing: ObjectAclPolicy | null, ownerId: string, visibility: ObjectAclPolicy["visibility"]): void {
+  if (existing && existing.owner !== ownerId) {
+    throw new ObjectOwnershipError();
+  }
+  if (existing?.visibility === "private" && visibility === "public") {
+    throw new ObjectPrivateError();
+  }
+}
+
 // The object storage service is used to interact with the object storage service.
 export class ObjectStorageService {
   constructor() {}
@@ -100,10 +127,10 @@ export class ObjectStorageService {
   // Downloads an object to the response.
   async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
     try {
-      // Get file metadata
+      // Get file metadata and ACL policy
       const [metadata] = await file.getMetadata();
-      // For product images, assume public visibility
-      const isPublic = true;
+      const aclPolicy = await getObjectAclPolicy(file);
+      const isPublic = aclPolicy?.visibility === "public";
       // Set appropriate headers
       res.set({
         "Content-Type": metadata.contentType || "application/octet-stream",
@@ -208,9 +235,85 @@ export class ObjectStorageService {
     return `/objects/${entityId}`;
   }
 
-  // For admin product image uploads, return the normalized path
-  async setProductImagePolicy(rawPath: string): Promise<string> {
-    return this.normalizeObjectEntityPath(rawPath);
+  // Sets the ACL policy on an uploaded object entity and returns its normalized
+  // path. Paths outside the object entity directory are returned unchanged.
+  // Fails like claimPublicObjectEntity for objects the owner may not take.
+  async trySetObjectEntityAclPolicy(
+    rawPath: string,
+    aclPolicy: ObjectAclPolicy,
+  ): Promise<string> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    if (!normalizedPath.startsWith("/objects/")) {
+      return normalizedPath;
+    }
+
+    const objectFile = await this.getObjectEntityFile(normalizedPath);
+    checkObjectClaim(await getObjectAclPolicy(objectFile), aclPolicy.owner, aclPolicy.visibility);
+    await setObjectAclPolicy(objectFile, aclPolicy);
+    return normalizedPath;
+  }
+
+  // Takes ownership of a freshly uploaded object as a private file of the user,
+  // granting the given ACL rules in addition to any the object already has.
+  // Fails if the path is not an uploaded object or another user already owns it.
+  async claimPrivateObjectEntity(
+    rawPath: string,
+    ownerId: string,
+    aclRules: Array<ObjectAclRule> = [],
+  ): Promise<string> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    const objectFile = await this.getObjectEntityFile(normalizedPath);
+
+    const existingPolicy = await getObjectAclPolicy(objectFile);
+    checkObjectClaim(existingPolicy, ownerId, "private");
+
+    const existingRules = existingPolicy?.aclRules || [];
+    const newRules = aclRules.filter((rule) =>
+      !existingRules.some((existing) => isSameAclRule(existing, rule))
+    );
+    await setObjectAclPolicy(objectFile, {
+      owner: ownerId,
+      visibility: "private",
+      aclRules: [...existingRules, ...newRules],
+    });
+    return normalizedPath;
+  }
+
+  // Takes ownership of a freshly uploaded object as a publicly readable file of
+  // the user (e.g. a profile image). Fails like claimPrivateObjectEntity, and
+  // also for the user's own private objects.
+  async claimPublicObjectEntity(rawPath: string, ownerId: string): Promise<string> {
+    const normalizedPath = this.normalizeObjectEntityPath(rawPath);
+    const objectFile = await this.getObjectEntityFile(normalizedPath);
+    checkObjectClaim(await getObjectAclPolicy(objectFile), ownerId, "public");
+
+    await setObjectAclPolicy(objectFile, { owner: ownerId, visibility: "public" });
+    return normalizedPath;
+  }
+
+  // Product images are publicly readable and owned by the admin who uploaded them
+  async setProductImagePolicy(rawPath: string, ownerId: string): Promise<string> {
+    return this.trySetObjectEntityAclPolicy(rawPath, {
+      owner: ownerId,
+      visibility: "public",
+    });
+  }
+
+  // Checks if the user can access the object entity.
+  async canAccessObjectEntity({
+    userId,
+    objectFile,
+    requestedPermission,
+  }: {
+    userId?: string;
+    objectFile: File;
+    requestedPermission?: ObjectPermission;
+  }): Promise<boolean> {
+    return canAccessObject({
+      userId,
+      objectFile,
+      requestedPermission: requestedPermission ?? ObjectPermission.READ,
+    });
   }
 }
 
@@ -269,6 +372,6 @@ async function signObjectURL({
     );
   }
 
-  const { signed_url: signedURL } = await response.json();
+  const { signed_url: signedURL } = (await response.json()) as { signed_url: string };
   return signedURL;
 }
\ No newline at end of file
@@ -0,0 +1,66 @@
+// Order lifecycle.
+//
+//   awaiting_prescription → pending → paid → processing → dispatched → delivered
+//
+// Orders can be cancelled until they are paid; after that the money has to go
+// back, so they are refunded instead (payments.refundOrder). Cancelled and
+// refunded orders are final. A prescription hold is released only
+// by a pharmacist's approval (storage.releasePrescriptionHold), never by a
+// plain status change.
+export const ORDER_STATUSES = [
+  "awaiting_prescription",
+  "pending",
+  "paid",
+  "processing",
+  "dispatched",
+  "delivered",
+  "cancelled",
+  "refunded",
+] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+export const PAYMENT_STATUSES = ["pending", "failed", "paid", "partially_refunded", "refunded"] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  awaiting_prescription: ["cancelled"],
+  pending: ["paid", "cancelled"],
+  paid: ["processing", "refunded"],
+  processing: ["dispatched", "refunded"],
+  dispatched: ["delivered", "refunded"],
+  delivered: ["refunded"],
+  cancelled: [],
+  refunded: [],
+};
+
+export function isOrderStatus(value: string): value is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function getAllowedOrderTransitions(from: string): readonly OrderStatus[] {
+  return isOrderStatus(from) ? ORDER_TRANSITIONS[from] : [];
+}
+
+// Staying in the same status is always allowed so payment-only updates pass.
+export function canTransitionOrder(from: string, to: OrderStatus): boolean {
+  return from === to || getAllowedOrderTransitions(from).includes(to);
+}
+
+// Cancelling an order, or refunding it before dispatch, puts its reserved stock
+// back on the shelf. Goods refunded after dispatch have left the pharmacy; any
+// that come back are received as inventory movements.
+export function releasesStock(from: string, to: OrderStatus): boolean {
+  return to === "cancelled" || (to === "refunded" && (from === "paid" || from === "processing"));
+}
+
+// Who made a change recorded in order_events. System changes come from
+// payment webhooks and have no user id.
+export const ORDER_EVENT_ACTOR_TYPES = ["customer", "admin", "system"] as const;
+export type OrderEventActorType = typeof ORDER_EVENT_ACTOR_TYPES[number];
+
+export interface OrderEventActor {
+  type: OrderEventActorType;
+  id?: string | null;
+}
+
+export const SYSTEM_ACTOR: OrderEventActor = { type: "system" };
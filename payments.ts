@@ -0,0 +1,208 @@
+import Stripe from "stripe";
+import type { Order, OrderWithItems, User } from "@shared/schema";
+import { storage, InvalidOrderTransitionError } from "./storage";
+import { toMinorUnits } from "./money";
+import { canTransitionOrder, type OrderEventActor } from "./orderStatus";
+
+export const PAYMENT_CURRENCY = (process.env.STRIPE_CURRENCY || "ghs").toLowerCase();
+
+export class PaymentsNotConfiguredError extends Error {
+  constructor(variable: string) {
+    super(`${variable} not set. Payments are disabled until it is configured.`);
+    this.name = "PaymentsNotConfiguredError";
+    Object.setPrototypeOf(this, PaymentsNotConfiguredError.prototype);
+  }
+}
+
+export class OrderNotRefundableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderNotRefundableError";
+    Object.setPrototypeOf(this, OrderNotRefundableError.prototype);
+  }
+}
+
+let stripeClient: Stripe | null = null;
+
+// Gets the shared Stripe client.
+//
+// STRIPE_API_HOST / STRIPE_API_PORT / STRIPE_API_PROTOCOL point the client at a
+// local stripe-mock server (https://github.com/stripe/stripe-mock) for testing.
+export function getStripe(): Stripe {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    throw new PaymentsNotConfiguredError("STRIPE_SECRET_KEY");
+  }
+
+  if (!stripeClient) {
+    stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY, {
+      ...(process.env.STRIPE_API_HOST && {
+        host: process.env.STRIPE_API_HOST,
+        port: process.env.STRIPE_API_PORT || 12111,
+        protocol: process.env.STRIPE_API_PROTOCOL === "https" ? "https" : "http",
+      }),
+    });
+  }
+  return stripeClient;
+}
+
+// Verifies the webhook signature and parses the event.
+export function constructWebhookEvent(rawBody: Buffer, signature: string): Stripe.Event {
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    throw new PaymentsNotConfiguredError("STRIPE_WEBHOOK_SECRET");
+  }
+  return getStripe().webhooks.constructEvent(rawBody, signature, process.env.STRIPE_WEBHOOK_SECRET);
+}
+
+// Gets the user's Stripe customer id, creating the customer on first use.
+async function ensureStripeCustomer(user: User): Promise<string> {
+  if (user.stripeCustomerId) {
+    return user.stripeCustomerId;
+  }
+
+  const customer = await getStripe().customers.create({
+    email: user.email ?? undefined,
+    name: [user.firstName, user.lastName].filter(Boolean).join(" ") || undefined,
+    metadata: { userId: user.id },
+  });
+  await storage.updateUserStripeInfo(user.id, customer.id, user.stripeSubscriptionId);
+  return customer.id;
+}
+
+// Creates a PaymentIntent for the order, or returns the order's existing one if
+// it can still be confirmed for the same amount.
+export async function createOrderPaymentIntent(
+  order: OrderWithItems,
+  user: User,
+): Promise<Stripe.PaymentIntent> {
+  const stripe = getStripe();
+  const amount = toMinorUnits(order.totalAmount);
+
+  if (order.stripePaymentIntentId) {
+    const existing = await stripe.paymentIntents.retrieve(order.stripePaymentIntentId);
+    if (!["canceled", "succeeded"].includes(existing.status) && existing.amount === amount) {
+      return existing;
+    }
+  }
+
+  const customerId = await ensureStripeCustomer(user);
+  const paymentIntent = await stripe.paymentIntents.create(
+    {
+      amount,
+      currency: PAYMENT_CURRENCY,
+      customer: customerId,
+      automatic_payment_methods: { enabled: true },
+      metadata: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        userId: user.id,
+      },
+    },
+    // Retried requests for the same order reuse the same PaymentIntent
+    { idempotencyKey: `order-${order.id}-${order.stripePaymentIntentId ?? "initial"}` },
+  );
+
+  await storage.setOrderPaymentIntent(order.id, paymentIntent.id);
+  return paymentIntent;
+}
+
+// Refunds what is left of the order's Stripe payment and marks the order
+// refunded, restocking it if it had not been dispatched. The refund is created
+// first so an order is never marked refunded without the money going back;
+// retrying after a failed status update reuses the same refund.
+export async function refundOrder(order: Order, actor: OrderEventActor, note?: string): Promise<Order> {
+  if (!canTransitionOrder(order.status, "refunded") || order.status === "refunded") {
+    throw new InvalidOrderTransitionError(order.status, "refunded");
+  }
+  if (!order.stripePaymentIntentId || !["paid", "partially_refunded"].includes(order.paymentStatus ?? "")) {
+    throw new OrderNotRefundableError("Order has no captured Stripe payment to refund");
+  }
+
+  await getStripe().refunds.create(
+    { payment_intent: order.stripePaymentIntentId, metadata: { orderId: order.id, orderNumber: order.orderNumber } },
+    { idempotencyKey: `order-${order.id}-refund` },
+  );
+
+  // The charge.refunded webhook that follows finds the order already refunded
+  return await storage.updateOrderStatus(order.id, {
+    status: "refunded",
+    paymentStatus: "refunded",
+    actor,
+    note,
+  });
+}
+
+async function findOrderForPaymentIntent(paymentIntentId: string, metadata?: Stripe.Metadata | null): Promise<Order | undefined> {
+  const order = await storage.getOrderByPaymentIntentId(paymentIntentId);
+  if (order) {
+    return order;
+  }
+
+  // The order may have been given a newer PaymentIntent after this one was created
+  if (metadata?.orderId) {
+    return await storage.getOrder(metadata.orderId);
+  }
+  return undefined;
+}
+
+// Applies a Stripe webhook event to the matching order.
+//
+// Stripe may deliver an event more than once or out of order, so every branch
+// only writes when the order is not already in the resulting state.
+export async function reconcilePaymentEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case "payment_intent.succeeded": {
+      const paymentIntent = event.data.object;
+      const order = await findOrderForPaymentIntent(paymentIntent.id, paymentIntent.metadata);
+      if (!order || ["paid", "refunded", "partially_refunded"].includes(order.paymentStatus ?? "")) {
+        return;
+      }
+      await storage.updateOrderStatus(order.id, {
+        status: order.status === "pending" ? "paid" : undefined,
+        paymentStatus: "paid",
+        note: `Stripe ${event.type} (${event.id})`,
+      });
+      return;
+    }
+
+    case "payment_intent.payment_failed": {
+      const paymentIntent = event.data.object;
+      const order = await findOrderForPaymentIntent(paymentIntent.id, paymentIntent.metadata);
+      if (!order || order.paymentStatus !== "pending") {
+        return;
+      }
+      await storage.updateOrderStatus(order.id, {
+        paymentStatus: "failed",
+        note: `Stripe ${event.type} (${event.id})`,
+      });
+      return;
+    }
+
+    case "charge.refunded": {
+      const charge = event.data.object;
+      const paymentIntentId = typeof charge.payment_intent === "string"
+        ? charge.payment_intent
+        : charge.payment_intent?.id;
+      if (!paymentIntentId) {
+        return;
+      }
+
+      const order = await findOrderForPaymentIntent(paymentIntentId, charge.metadata);
+      const fullyRefunded = charge.amount_refunded >= charge.amount;
+      const paymentStatus = fullyRefunded ? "refunded" : "partially_refunded";
+      if (!order || order.paymentStatus === paymentStatus || order.paymentStatus === "refunded") {
+        return;
+      }
+      await storage.updateOrderStatus(order.id, {
+        // Only paid orders move to 'refunded'; e.g. a cancelled order keeps its status
+        status: fullyRefunded && canTransitionOrder(order.status, "refunded") ? "refunded" : undefined,
+        paymentStatus,
+        note: `Stripe ${event.type} (${event.id})`,
+      });
+      return;
+    }
+
+    default:
+      // Other event types are acknowledged but not acted on
+      return;
+  }
+}
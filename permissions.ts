@@ -0,0 +1,61 @@
+import type { UserWithPermissions } from "@shared/schema";
+
+// Every permission an admin can hold. Routes and object ACL rules may only
+// refer to permissions listed here.
+export const PERMISSIONS = {
+  add_products: "Create products, categories and brands",
+  edit_products: "Edit, merge and delete products, categories and brands",
+  manage_inventory: "Record stock receipts, adjustments and write-offs",
+  view_prescriptions: "Review prescriptions and release orders held for one",
+  manage_orders: "Search orders and move them through their statuses",
+  manage_users: "Grant and revoke admin roles and permissions",
+  manage_object_access: "Share private files such as prescription scans",
+  view_audit_log: "Search and export the admin audit log",
+} as const;
+export type Permission = keyof typeof PERMISSIONS;
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as Permission[];
+
+// Roles bundle permissions. Permissions granted individually in
+// admin_permissions are added on top of the role's bundle.
+export const ADMIN_ROLES = {
+  // Holds every permission, including ones added to the catalogue later
+  super_admin: { description: "Full access", permissions: PERMISSION_NAMES },
+  product_manager: { description: "Manages the catalogue", permissions: ["add_products", "edit_products", "manage_inventory"] },
+  prescription_viewer: { description: "Pharmacist reviewing prescriptions", permissions: ["view_prescriptions"] },
+  order_manager: { description: "Fulfils orders", permissions: ["manage_orders"] },
+} as const satisfies Record<string, { description: string; permissions: readonly Permission[] }>;
+export type AdminRole = keyof typeof ADMIN_ROLES;
+export const ADMIN_ROLE_NAMES = Object.keys(ADMIN_ROLES) as AdminRole[];
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+export function isAdminRole(value: string | null | undefined): value is AdminRole {
+  return !!value && Object.prototype.hasOwnProperty.call(ADMIN_ROLES, value);
+}
+
+// The requested permissions a granter does not hold. Admins can only hand out
+// permissions they have themselves, so managing users never widens access.
+export function findUndelegablePermissions(held: ReadonlySet<Permission>, requested: readonly Permission[]): Permission[] {
+  return requested.filter((permission) => !held.has(permission));
+}
+
+// Works out everything a user may do as an admin. Non-admins have no
+// permissions even if grants are left over from when they were one.
+export function resolvePermissions(user: UserWithPermissions): Set<Permission> {
+  const permissions = new Set<Permission>();
+  if (!user.isAdmin) {
+    return permissions;
+  }
+
+  if (isAdminRole(user.adminRole)) {
+    ADMIN_ROLES[user.adminRole].permissions.forEach((permission) => permissions.add(permission));
+  }
+  for (const { permission } of user.adminPermissions) {
+    if (isPermission(permission)) {
+      permissions.add(permission);
+    }
+  }
+  return permissions;
+}
@@ -0,0 +1,72 @@
+import type { Prescription, Product } from "@shared/schema";
+
+// How long a prescription stays valid when the reviewer did not set an expiry date
+export const PRESCRIPTION_VALIDITY_DAYS = 180;
+
+export function getPrescriptionExpiry(prescription: Prescription): Date {
+  if (prescription.expiresAt) {
+    return prescription.expiresAt;
+  }
+  const expiry = new Date(prescription.prescriptionDate);
+  expiry.setDate(expiry.getDate() + PRESCRIPTION_VALIDITY_DAYS);
+  return expiry;
+}
+
+// Lowercases a drug or product name and reduces punctuation and spacing to
+// single spaces, so "Amoxicillin 500mg, 21 Capsules" and
+// "amoxicillin 500mg 21 capsules" compare equal.
+function normalizeDrugName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Splits the free-text medication list ("Amoxicillin 500mg x21; Ibuprofen 200mg")
+// into normalized entries, one per line or semicolon-separated item.
+function parseMedications(medications: string | null): string[] {
+  return (medications ?? "")
+    .split(/[\n;]+/)
+    .map(normalizeDrugName)
+    .filter((entry) => entry.length > 0);
+}
+
+// A product is covered only when a listed medication is exactly its name once
+// normalized. Anything less certain is left to a pharmacist to confirm.
+export function prescriptionCoversProduct(prescription: Prescription, product: Product): boolean {
+  const productName = normalizeDrugName(product.name);
+  return parseMedications(prescription.medications).includes(productName);
+}
+
+// Lists the reasons a prescription does not authorize the buyer to receive the
+// given prescription-only products. An empty list means the order may proceed.
+//
+// confirmedProductIds are products a pharmacist has confirmed the prescription
+// covers, for when the listed medication does not name them exactly.
+export function findPrescriptionProblems(
+  prescription: Prescription | undefined,
+  userId: string,
+  prescriptionProducts: Product[],
+  { confirmedProductIds = [], now = new Date() }: { confirmedProductIds?: string[]; now?: Date } = {},
+): string[] {
+  if (prescriptionProducts.length === 0) {
+    return [];
+  }
+  if (!prescription) {
+    return ["A verified prescription is required for prescription-only items"];
+  }
+
+  const problems: string[] = [];
+  if (prescription.userId !== userId) {
+    problems.push("Prescription does not belong to the buyer");
+  }
+  if (prescription.status !== "verified") {
+    problems.push(`Prescription has not been verified (status '${prescription.status}')`);
+  }
+  if (getPrescriptionExpiry(prescription) < now) {
+    problems.push("Prescription has expired");
+  }
+  for (const product of prescriptionProducts) {
+    if (!confirmedProductIds.includes(product.id) && !prescriptionCoversProduct(prescription, product)) {
+      problems.push(`Prescription does not list '${product.name}'`);
+    }
+  }
+  return problems;
+}
@@ -2,14 +2,14 @@ import * as client from "openid-client";
 import { Strategy, type VerifyFunction } from "openid-client/passport";
 
 import passport from "passport";
-import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import type { Express, Request } from "express";
 import memoize from "memoizee";
-import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import type { AuthProvider } from "./auth";
 
-if (!process.env.REPLIT_DOMAINS) {
-  throw new Error("Environment variable REPLIT_DOMAINS not provided");
+// Replit OIDC login is only available when the app knows its Replit domains
+export function isReplitAuthEnabled(): boolean {
+  return !!process.env.REPLIT_DOMAINS;
 }
 
 const getOidcConfig = memoize(
@@ -22,28 +22,6 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const pgStore = connectPg(session);
-  const sessionStore = new pgStore({
-    conString: process.env.DATABASE_URL,
-    createTableIfMissing: false,
-    ttl: sessionTtl,
-    tableName: "sessions",
-  });
-  return session({
-    secret: process.env.SESSION_SECRET!,
-    store: sessionStore,
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      httpOnly: true,
-      secure: true,
-      maxAge: sessionTtl,
-    },
-  });
-}
-
 function updateUserSession(
   user: any,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
@@ -60,15 +38,17 @@ async function upsertUser(
   await storage.upsertUser({
     id: claims["sub"],
     email: claims["email"],
+    // Replit has already confirmed the address
+    emailVerifiedAt: claims["email"] ? new Date() : null,
     firstName: claims["first_name"],
     lastName: claims["last_name"],
     profileImageUrl: claims["profile_image_url"],
   });
 }
 
-export async function setupAuth(app: Express) {
-  app.set("trust proxy", 1);
-  app.use(getSession());
+// Registers the OIDC strategies and the /api/login, /api/callback and
+// /api/logout routes. Expects the session middleware to be installed.
+export async function setupReplitAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -127,31 +107,33 @@ export async function setupAuth(app: Express) {
   });
 }
 
-export const isAuthenticated: RequestHandler = async (req, res, next) => {
-  const user = req.user as any;
-
-  if (!req.isAuthenticated() || !user.expires_at) {
-    return res.status(401).json({ message: "Unauthorized" });
-  }
-
-  const now = Math.floor(Date.now() / 1000);
-  if (now <= user.expires_at) {
-    return next();
-  }
-
-  const refreshToken = user.refresh_token;
-  if (!refreshToken) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
-  }
-
-  try {
-    const config = await getOidcConfig();
-    const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
-    updateUserSession(user, tokenResponse);
-    return next();
-  } catch (error) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
-  }
+// Identifies users logged in through Replit, refreshing expired access tokens
+export const replitAuthProvider: AuthProvider = {
+  name: "oidc",
+
+  async authenticate(req: Request): Promise<string | undefined> {
+    const user = req.user as any;
+    if (!req.isAuthenticated?.() || !user?.expires_at) {
+      return undefined;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now <= user.expires_at) {
+      return user.claims.sub;
+    }
+
+    const refreshToken = user.refresh_token;
+    if (!refreshToken) {
+      return undefined;
+    }
+
+    try {
+      const config = await getOidcConfig();
+      const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
+      updateUserSession(user, tokenResponse);
+      return user.claims.sub;
+    } catch (error) {
+      return undefined;
+    }
+  },
 };
@@ -1,59 +1,499 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { ObjectStorageService } from "./objectStorage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { storage } from "./storage";
-import { insertProductSchema, insertPrescriptionSchema } from "@shared/schema";
+import { ObjectStorageService, ObjectNotFoundError, ObjectOwnershipError, ObjectPrivateError } from "./objectStorage";
+import {
+  ObjectAccessGroupType,
+  ObjectPermission,
+  addObjectAclRule,
+  removeObjectAclRule,
+  getObjectAclPolicy,
+} from "./objectAcl";
+import {
+  setupAuth,
+  isAuthenticated,
+  isAdmin,
+  checkAdminPermission,
+  requireVerifiedEmail,
+  getPrincipal,
+  resolvePrincipal,
+  startLocalSession,
+  hashSessionId,
+  summarizeSession,
+} from "./auth";
+import { hashAuthToken, sendPasswordResetEmail, sendVerificationEmail, sendEmailChangeNotice } from "./accountTokens";
+import { reserveLoginAttempt, recordLoginAttempt, normalizeLoginName } from "./loginThrottle";
+import {
+  storage,
+  PRODUCT_SORTS,
+  CartEmptyError,
+  ProductUnavailableError,
+  InsufficientStockError,
+  EntityInUseError,
+  PrescriptionNotFoundError,
+  OrderNotFoundError,
+  InvalidOrderTransitionError,
+  EmailInUseError,
+  ProductNotFoundError,
+  BatchNotFoundError,
+  DuplicateBatchError,
+  type CatalogImportResult,
+} from "./storage";
+import {
+  insertProductSchema,
+  insertPrescriptionSchema,
+  insertCartItemSchema,
+  insertCategorySchema,
+  insertBrandSchema,
+  type CartItemWithProduct,
+  type CartSummary,
+  type CustomerPrescription,
+  type PrescriptionWithUser,
+  type Order,
+  type OrderWithItems,
+  type OrderEvent,
+  type OrderDetail,
+  type OrderTimelineEntry,
+} from "@shared/schema";
 import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
 import bcrypt from "bcryptjs";
+import { lineTotal, toMinorUnits, formatMinorUnits } from "./money";
+import { slugify, SLUG_PATTERN } from "./slug";
+import { findPrescriptionProblems } from "./prescriptionPolicy";
+import { ORDER_STATUSES } from "./orderStatus";
+import { audited, auditLogToCsv, type AuditOptions } from "./audit";
+import { getReorderSuggestions, scanStockLevels, SALES_WINDOW_DAYS } from "./stockAlerts";
+import {
+  readCatalogUpload,
+  planCatalogImport,
+  applyCatalogImport,
+  catalogToCsv,
+  toCatalogRecord,
+  CatalogFileError,
+  type CatalogImportRow,
+} from "./catalogImport";
+import { CsvParseError } from "./csv";
+import {
+  ADMIN_ROLES,
+  ADMIN_ROLE_NAMES,
+  PERMISSIONS,
+  PERMISSION_NAMES,
+  isPermission,
+  resolvePermissions,
+  findUndelegablePermissions,
+  type AdminRole,
+  type Permission,
+} from "./permissions";
+import {
+  createOrderPaymentIntent,
+  constructWebhookEvent,
+  reconcilePaymentEvent,
+  refundOrder,
+  PaymentsNotConfiguredError,
+  OrderNotRefundableError,
+} from "./payments";
 // Import removed multer as it's not needed for object storage
 
-// Enhanced authentication middleware that supports both session types
-const isAuthenticatedEnhanced = async (req: any, res: any, next: any) => {
-  // Check for traditional session-based auth first
-  if ((req.session as any)?.userId) {
-    const user = await storage.getUserById((req.session as any).userId);
-    if (user) {
-      (req as any).user = { claims: { sub: user.id }, ...user };
-      return next();
-    }
-  }
-  
-  // Fall back to Replit auth
-  return isAuthenticated(req, res, next);
+// How each audited admin route loads the entity it changes
+const loadProduct = (id: string) => storage.getProduct(id);
+const categoryAudit: AuditOptions = { entityType: "category", load: (id) => storage.getCategory(id) };
+const brandAudit: AuditOptions = { entityType: "brand", load: (id) => storage.getBrand(id) };
+const orderAudit: AuditOptions = { entityType: "order", load: (id) => storage.getOrder(id) };
+const userAudit: AuditOptions = { entityType: "user", load: (id) => storage.getUserWithPermissions(id) };
+const loginLockoutAudit: AuditOptions = { entityType: "login_lockout", load: (id) => storage.getLoginLockout(id) };
+const objectAclAudit: AuditOptions = {
+  entityType: "object",
+  load: async (objectPath) => getObjectAclPolicy(await new ObjectStorageService().getObjectEntityFile(objectPath)),
+  entityId: (req) => req.body?.objectPath,
 };
+// One entry per product an import created or updated, with the row's changes
+const catalogImportAudit: AuditOptions = {
+  entityType: "product",
+  each: ({ rows, result }: { rows: CatalogImportRow[]; result: CatalogImportResult }) => rows
+    .filter((row) => row.slug && result.productIds[row.slug])
+    .map((row) => ({ entityId: result.productIds[row.slug!], changes: row.changes ?? {} })),
+};
+
+const passwordSchema = z.string().min(8, "Password must be at least 8 characters").max(200);
+
+const forgotPasswordSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+const loginLockoutQuerySchema = z.object({
+  active: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+});
+
+const loginAttemptQuerySchema = z.object({
+  username: z.string().trim().min(1).optional().transform((value) => value && normalizeLoginName(value)),
+  ipAddress: z.string().min(1).optional(),
+  succeeded: z.enum(["true", "false"]).optional().transform((value) => value === undefined ? undefined : value === "true"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const profileUpdateSchema = z.object({
+  firstName: z.string().trim().max(100).nullable().optional(),
+  lastName: z.string().trim().max(100).nullable().optional(),
+  email: z.string().trim().email().optional(),
+});
+
+const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+const profileImageSchema = z.object({
+  imageURL: z.string().min(1),
+});
+
+const accountDeletionSchema = z.object({
+  password: z.string().optional(),
+});
+
+const categoryRequestSchema = insertCategorySchema.extend({
+  name: z.string().trim().min(1).max(100),
+  slug: z.string().regex(SLUG_PATTERN, "Slug must be lowercase words separated by hyphens").max(100).optional(),
+});
+
+const brandRequestSchema = insertBrandSchema.extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+const hasUpdates = (update: Record<string, unknown>) => Object.values(update).some((value) => value !== undefined);
+
+const categoryUpdateSchema = categoryRequestSchema.partial().refine(hasUpdates, "No fields to update");
+const brandUpdateSchema = brandRequestSchema.partial().refine(hasUpdates, "No fields to update");
+
+const reassignQuerySchema = z.object({
+  reassignTo: z.string().uuid().optional(),
+});
+
+const mergeRequestSchema = z.object({
+  targetId: z.string().uuid(),
+});
+
+const objectAclRuleRequestSchema = z.object({
+  objectPath: z.string().startsWith("/objects/"),
+  group: z.object({
+    type: z.nativeEnum(ObjectAccessGroupType),
+    id: z.string().trim().min(1).max(2000),
+  }).refine(
+    (group) => group.type !== ObjectAccessGroupType.ADMIN_PERMISSION || isPermission(group.id),
+    { message: "Unknown admin permission", path: ["id"] },
+  ),
+  permission: z.nativeEnum(ObjectPermission).default(ObjectPermission.READ),
+});
+
+const adminStatusRequestSchema = z.object({
+  isAdmin: z.boolean(),
+  role: z.enum(ADMIN_ROLE_NAMES as [AdminRole, ...AdminRole[]]).nullable().optional(),
+});
+
+const permissionGrantSchema = z.object({
+  permission: z.enum(PERMISSION_NAMES as [Permission, ...Permission[]]),
+});
+
+const cartItemRequestSchema = insertCartItemSchema
+  .omit({ userId: true })
+  .extend({ quantity: z.coerce.number().int().min(1).default(1) });
+
+const cartQuantitySchema = z.object({
+  quantity: z.coerce.number().int().min(1),
+});
+
+const productQuerySchema = z.object({
+  categoryId: z.string().uuid().optional(),
+  category: z.string().min(1).optional(), // category slug
+  brandId: z.string().uuid().optional(),
+  search: z.string().trim().min(1).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  inStock: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: z.enum(PRODUCT_SORTS).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Listing query for a single category or brand; the scope comes from the path
+const scopedProductQuerySchema = productQuerySchema.omit({ categoryId: true, category: true, brandId: true });
+
+const productSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  categoryId: z.string().uuid().optional(),
+  category: z.string().min(1).optional(), // category slug
+  brandId: z.string().uuid().optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  inStock: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  requiresPrescription: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const addressSchema = z.object({
+  fullName: z.string().min(1).max(200),
+  phone: z.string().min(1).max(50),
+  line1: z.string().min(1).max(200),
+  line2: z.string().max(200).optional(),
+  city: z.string().min(1).max(100),
+  region: z.string().max(100).optional(),
+  postalCode: z.string().max(20).optional(),
+  country: z.string().min(1).max(100).default("Ghana"),
+});
+
+const checkoutRequestSchema = z.object({
+  shippingAddress: addressSchema,
+  billingAddress: addressSchema.optional(),
+  // Required (verified, unexpired, listing the medication) when the cart has prescription-only items
+  prescriptionId: z.string().uuid().optional(),
+});
+
+// `to` is inclusive. A date-only `to` (YYYY-MM-DD) covers that whole day, so
+// it becomes an exclusive bound at the start of the next day.
+const dateRangeEndSchema = z.string().trim().transform((value, ctx): { to: Date } | { before: Date } => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.invalid_date, message: "Invalid date" });
+    return z.NEVER;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    return { before: date };
+  }
+  return { to: date };
+});
 
-// Admin middleware to check if user has admin permissions
-const isAdmin = async (req: any, res: any, next: any) => {
-  if (!req.user) {
-    return res.status(401).json({ error: 'Not authenticated' });
+// Spreads a parsed dateRangeEndSchema `to` into storage filters
+function withDateRangeEnd<T extends { to?: { to: Date } | { before: Date } }>({ to, ...query }: T) {
+  return { ...query, ...to };
+}
+
+const orderQuerySchema = z.object({
+  status: z.string().min(1).max(30).optional(),
+  from: z.coerce.date().optional(),
+  to: dateRangeEndSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const adminOrderQuerySchema = orderQuerySchema.extend({
+  userId: z.string().min(1).optional(),
+  search: z.string().trim().min(1).max(200).optional(),
+});
+
+const auditQuerySchema = z.object({
+  actorId: z.string().min(1).optional(),
+  action: z.string().min(1).max(100).optional(),
+  entityType: z.string().min(1).max(50).optional(),
+  entityId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: dateRangeEndSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const auditExportQuerySchema = auditQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(50000).default(10000),
+});
+
+// Stock is changed through inventory movements, never by editing the product
+const productCreateSchema = insertProductSchema.extend({
+  stockQuantity: z.number().int().min(0).optional(),
+  reorderThreshold: z.number().int().min(0).nullable().optional(),
+});
+const productUpdateSchema = productCreateSchema.omit({ stockQuantity: true }).partial();
+
+const stockReceiptSchema = z.object({
+  quantity: z.number().int().positive(),
+  reason: z.string().trim().min(1).max(500).optional(),
+  // Set for medicines tracked by lot and expiry date
+  batch: z.object({
+    lotNumber: z.string().trim().min(1).max(100),
+    expiryDate: z.string().date(),
+    supplier: z.string().trim().min(1).max(200).optional(),
+    // Expired lots are never sold, so receiving one is almost always a typo
+    acceptExpired: z.boolean().default(false),
+  }).refine(
+    (batch) => batch.acceptExpired || batch.expiryDate >= new Date().toISOString().slice(0, 10),
+    { message: "Expiry date is in the past; set acceptExpired to record an expired lot", path: ["expiryDate"] },
+  ).optional(),
+});
+
+// Adjustments are signed; write-offs give the (positive) number of units lost
+const stockAdjustmentSchema = z.object({
+  type: z.enum(["adjustment", "write_off"]).default("adjustment"),
+  quantity: z.number().int().refine((quantity) => quantity !== 0, "Quantity must not be zero"),
+  reason: z.string().trim().min(1).max(500),
+  batchId: z.string().uuid().optional(),
+}).refine((adjustment) => adjustment.type !== "write_off" || adjustment.quantity > 0, {
+  message: "Write-off quantity must be positive",
+  path: ["quantity"],
+});
+
+const expiringBatchQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(365).default(30),
+});
+
+// Catalogue uploads, CSV or JSON, can be far larger than other request bodies.
+// The app-wide JSON parser leaves these routes alone (see index.ts).
+export const CATALOG_IMPORT_PATH = "/api/admin/products/import";
+const catalogJsonUpload = express.json({ limit: "5mb" });
+const catalogUpload = express.text({ type: ["text/csv", "text/plain"], limit: "5mb" });
+
+const catalogExportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+});
+
+const adminNotificationQuerySchema = z.object({
+  type: z.string().min(1).max(50).optional(),
+  unread: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const inventoryMovementQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Payment status follows Stripe (webhooks and refundOrder), never the admin
+const orderStatusChangeSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  note: z.string().trim().min(1).max(1000).optional(),
+});
+
+// Review fields are set by pharmacists only, never by the submitting customer
+const prescriptionSubmissionSchema = insertPrescriptionSchema
+  .omit({ status: true, reviewNotes: true, reviewedBy: true, reviewedAt: true, expiresAt: true })
+  .extend({ prescriptionDate: z.coerce.date() });
+
+const prescriptionResubmissionSchema = z.object({
+  imageUrls: z.array(z.string().min(1)).min(1),
+  medications: z.string().max(2000).optional(),
+});
+
+const prescriptionReviewSchema = z.object({
+  status: z.enum(["pending", "verified", "rejected"]),
+  reviewNotes: z.string().max(2000).optional(),
+  expiresAt: z.coerce.date().optional(),
+});
+
+const prescriptionApprovalSchema = z.object({
+  prescriptionId: z.string().uuid(),
+  // Prescription-only items the pharmacist confirms the prescription covers,
+  // where its medication list does not name them exactly
+  confirmedProductIds: z.array(z.string().uuid()).max(100).default([]),
+});
+
+// Claims uploaded prescription scans as private objects owned by the user,
+// readable by pharmacists, and returns their normalized /objects/ paths.
+async function claimPrescriptionImages(userId: string, imageUrls: string[] = []): Promise<string[]> {
+  const objectStorageService = new ObjectStorageService();
+  const pharmacistReadRule = {
+    group: { type: ObjectAccessGroupType.ADMIN_PERMISSION, id: "view_prescriptions" },
+    permission: ObjectPermission.READ,
+  };
+  return Promise.all(
+    imageUrls.map((imageUrl) =>
+      objectStorageService.claimPrivateObjectEntity(imageUrl, userId, [pharmacistReadRule]),
+    ),
+  );
+}
+
+// Maps object ownership failures to a response; returns false for other errors.
+function respondToObjectError(error: unknown, res: any, uploadPath = "/api/prescriptions/uploads"): boolean {
+  if (error instanceof ObjectNotFoundError) {
+    res.status(400).json({ error: `Uploaded image not found; upload it via ${uploadPath} first` });
+    return true;
   }
+  if (error instanceof ObjectOwnershipError) {
+    res.status(403).json({ error: "Uploaded image belongs to another user" });
+    return true;
+  }
+  if (error instanceof ObjectPrivateError) {
+    res.status(409).json({ error: "Uploaded image is private and cannot be made public" });
+    return true;
+  }
+  return false;
+}
 
-  // Handle both auth types
-  const userId = req.user.claims?.sub || req.user.id;
-  const user = await storage.getUserWithPermissions(userId);
-  if (!user?.isAdmin) {
-    return res.status(403).json({ error: 'Admin access required' });
+function toCustomerPrescription({ user, reviewer, reviewedBy, ...prescription }: PrescriptionWithUser): CustomerPrescription {
+  const reviewerName = reviewer
+    ? [reviewer.firstName, reviewer.lastName].filter(Boolean).join(" ") || "Pharmacist"
+    : null;
+  return { ...prescription, reviewerName };
+}
+
+// Customers see when each change happened but not who made it or any staff note
+function toOrderTimeline(order: Order, events: OrderEvent[]): OrderTimelineEntry[] {
+  if (events.length > 0) {
+    return events.map((event) => ({
+      status: event.newStatus,
+      paymentStatus: event.newPaymentStatus,
+      at: event.createdAt,
+    }));
   }
 
-  req.adminUser = user;
-  next();
-};
+  // Orders placed before events were recorded only know their creation and current status
+  const timeline: OrderTimelineEntry[] = [{ status: "placed", paymentStatus: "pending", at: order.createdAt }];
+  if (order.status !== "pending" || order.paymentStatus !== "pending") {
+    timeline.push({ status: order.status, paymentStatus: order.paymentStatus ?? null, at: order.updatedAt });
+  }
+  return timeline;
+}
 
-const checkAdminPermission = (permission: string) => {
-  return async (req: any, res: any, next: any) => {
-    if (!req.adminUser) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
+function toOrderDetail(order: OrderWithItems, events: OrderEvent[]): OrderDetail {
+  const timeline = toOrderTimeline(order, events);
 
-    const hasPermission = await storage.hasAdminPermission(req.adminUser.id, permission);
-    if (!hasPermission) {
-      return res.status(403).json({ error: `Permission '${permission}' required` });
-    }
+  return {
+    ...order,
+    orderItems: order.orderItems.map((item) => ({
+      ...item,
+      lineTotal: lineTotal(item.price, item.quantity),
+    })),
+    timeline,
+  };
+}
 
-    next();
+function buildCartSummary(items: CartItemWithProduct[]): CartSummary {
+  const itemsWithTotals = items.map((item) => ({
+    ...item,
+    lineTotal: lineTotal(item.product.price, item.quantity),
+  }));
+  const subtotal = itemsWithTotals.reduce((sum, item) => sum + toMinorUnits(item.lineTotal), 0);
+
+  return {
+    items: itemsWithTotals,
+    itemCount: items.reduce((count, item) => count + item.quantity, 0),
+    subtotal: formatMinorUnits(subtotal),
   };
-};
+}
+
+// Checks that a product can be placed in the cart with the given total quantity.
+// Returns the HTTP status and error to respond with, or null if the quantity is acceptable.
+async function validateCartProduct(productId: string, quantity: number): Promise<{ status: number; error: string } | null> {
+  const product = await storage.getProduct(productId);
+  if (!product || !product.isActive) {
+    return { status: 404, error: "Product not found" };
+  }
+
+  const available = product.stockQuantity ?? 0;
+  if (quantity > available) {
+    return { status: 409, error: `Only ${available} of '${product.name}' in stock` };
+  }
+
+  return null;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check endpoint for Render
@@ -74,22 +514,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { username, password } = req.body;
 
-      if (!username || !password) {
+      if (typeof username !== "string" || typeof password !== "string" || !username || !password) {
         return res.status(400).json({ message: "Username and password are required" });
       }
 
+      // Counted as a failure up front; a correct password takes it back
+      const ticket = await reserveLoginAttempt(username, req.ip);
+      if (ticket.retryAfter > 0) {
+        res.setHeader("Retry-After", String(ticket.retryAfter));
+        return res.status(429).json({ message: "Too many failed login attempts. Please try again later.", retryAfter: ticket.retryAfter });
+      }
+
       const user = await storage.getUserByUsername(username);
       if (!user || !user.password) {
+        await recordLoginAttempt(req, username, null, ticket, false);
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
       const isValid = await bcrypt.compare(password, user.password);
+      await recordLoginAttempt(req, username, user.id, ticket, isValid);
       if (!isValid) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
       // Set session
-      (req.session as any).userId = user.id;
+      startLocalSession(req, user.id);
       
       // Return user data (without password)
       const { password: _, ...userWithoutPassword } = user;
@@ -133,8 +582,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isAdmin: false,
       });
 
+      // Registration succeeds even if the verification email cannot be sent;
+      // the user can ask for another one.
+      try {
+        await sendVerificationEmail({ ...newUser, email });
+      } catch (error) {
+        console.error("Error sending verification email:", error);
+      }
+
       // Set session
-      (req.session as any).userId = newUser.id;
+      startLocalSession(req, newUser.id);
 
       // Return user data (without password)
       const { password: _, ...userWithoutPassword } = newUser;
@@ -148,6 +605,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Always answers the same way so it cannot be used to discover accounts
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const user = await storage.getUserByEmail(parsed.data.email);
+      // Accounts that only log in through Replit have no password to reset
+      if (user?.email && user.password) {
+        await sendPasswordResetEmail({ ...user, email: user.email });
+      }
+      res.status(202).json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const hashedPassword = await bcrypt.hash(parsed.data.password, 10);
+      const user = await storage.resetPasswordWithToken(hashAuthToken(parsed.data.token), hashedPassword);
+      if (!user) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+      res.json({ message: "Password has been reset. Please log in again." });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/verify-email", async (req, res) => {
+    const parsed = verifyEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const user = await storage.verifyEmailWithToken(hashAuthToken(parsed.data.token));
+      if (!user) {
+        return res.status(400).json({ message: "Verification link is invalid or has expired" });
+      }
+      res.json({ message: "Email address verified" });
+    } catch (error) {
+      if (error instanceof EmailInUseError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUserById(getPrincipal(req).id);
+      // A requested new address takes priority over the current one
+      const email = user?.pendingEmail ?? user?.email;
+      if (!user || !email) {
+        return res.status(400).json({ message: "Add an email address to your account first" });
+      }
+      if (!user.pendingEmail && user.emailVerifiedAt) {
+        return res.status(409).json({ message: "Email address is already verified" });
+      }
+
+      await sendVerificationEmail({ ...user, email });
+      res.status(202).json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.post("/api/auth/logout", (req, res) => {
     req.session.destroy((err) => {
       if (err) {
@@ -159,10 +696,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get current user endpoint
-  app.get("/api/auth/user", isAuthenticatedEnhanced, async (req, res) => {
+  app.get("/api/auth/user", isAuthenticated, async (req, res) => {
     try {
-      const userId = (req as any).user?.claims?.sub || (req as any).user?.id;
-      const user = await storage.getUserById(userId);
+      const user = await storage.getUserById(getPrincipal(req).id);
       
       if (!user) {
         return res.status(404).json({ message: "User not found" });
@@ -176,6 +712,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Account self-service
+  app.patch("/api/account/profile", isAuthenticated, async (req, res) => {
+    const parsed = profileUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const principal = getPrincipal(req);
+      const user = await storage.updateUserProfile(principal.id, parsed.data);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // A new address stays pending until confirmed from that address
+      if (user.pendingEmail && parsed.data.email === user.pendingEmail) {
+        try {
+          await sendVerificationEmail({ ...user, email: user.pendingEmail });
+          if (user.email) {
+            await sendEmailChangeNotice({ ...user, email: user.email }, user.pendingEmail);
+          }
+        } catch (error) {
+          console.error("Error sending email change messages:", error);
+        }
+      }
+
+      const { password, ...userWithoutPassword } = user;
+      res.json({ user: userWithoutPassword });
+    } catch (error) {
+      if (error instanceof EmailInUseError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error updating profile:", error);
+      res.status(500).json({ error: "Failed to update profile" });
+    }
+  });
+
+  // Other sessions are logged out; the current one stays logged in
+  app.post("/api/account/password", isAuthenticated, async (req, res) => {
+    const parsed = passwordChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const user = await storage.getUserById(getPrincipal(req).id);
+      if (!user?.password) {
+        return res.status(400).json({ error: "This account logs in without a password" });
+      }
+      if (!(await bcrypt.compare(parsed.data.currentPassword, user.password))) {
+        return res.status(403).json({ error: "Current password is incorrect" });
+      }
+
+      const hashedPassword = await bcrypt.hash(parsed.data.newPassword, 10);
+      await storage.updateUserPassword(user.id, hashedPassword, req.sessionID);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      res.status(500).json({ error: "Failed to change password" });
+    }
+  });
+
+  app.post("/api/account/profile-image/uploads", isAuthenticated, async (req, res) => {
+    try {
+      const objectStorageService = new ObjectStorageService();
+      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+      res.json({ uploadURL });
+    } catch (error) {
+      console.error("Error creating profile image upload URL:", error);
+      res.status(500).json({ error: "Failed to create upload URL" });
+    }
+  });
+
+  app.put("/api/account/profile-image", isAuthenticated, async (req, res) => {
+    const parsed = profileImageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const userId = getPrincipal(req).id;
+      const objectStorageService = new ObjectStorageService();
+      const objectPath = await objectStorageService.claimPublicObjectEntity(parsed.data.imageURL, userId);
+      await storage.setUserProfileImage(userId, objectPath);
+      res.json({ profileImageUrl: objectPath });
+    } catch (error) {
+      if (respondToObjectError(error, res, "/api/account/profile-image/uploads")) {
+        return;
+      }
+      console.error("Error setting profile image:", error);
+      res.status(500).json({ error: "Failed to set profile image" });
+    }
+  });
+
+  app.get("/api/account/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const sessions = await storage.getUserSessions(getPrincipal(req).id);
+      res.json({ sessions: sessions.map((session) => summarizeSession(session, req.sessionID)) });
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Sessions are identified by the hashed id from GET /api/account/sessions
+  app.delete("/api/account/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getPrincipal(req).id;
+      const session = (await storage.getUserSessions(userId))
+        .find((candidate) => hashSessionId(candidate.sid) === req.params.id);
+      if (!session || !(await storage.deleteUserSession(userId, session.sid))) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.json({ success: true, current: session.sid === req.sessionID });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ error: "Failed to revoke session" });
+    }
+  });
+
+  // Deletes the account by erasing personal details. Orders and prescriptions
+  // are retained for pharmacy records.
+  app.delete("/api/account", isAuthenticated, async (req, res) => {
+    const parsed = accountDeletionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const user = await storage.getUserById(getPrincipal(req).id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (user.password && !(parsed.data.password && await bcrypt.compare(parsed.data.password, user.password))) {
+        return res.status(403).json({ error: "Password is required to delete the account" });
+      }
+
+      await storage.anonymizeUser(user.id);
+      req.session.destroy(() => {
+        res.clearCookie('connect.sid');
+        res.json({ success: true });
+      });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ error: "Failed to delete account" });
+    }
+  });
+
   // Public object serving endpoint
   app.get("/public-objects/:filePath(*)", async (req, res) => {
     const filePath = req.params.filePath;
@@ -192,6 +876,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Private object serving endpoint. Public objects (e.g. product images) are
+  // readable by anyone; private ones by their owner and the groups in their ACL
+  // rules (prescription scans grant READ to admins with view_prescriptions).
+  app.get("/objects/:objectPath(*)", async (req, res) => {
+    const objectStorageService = new ObjectStorageService();
+    try {
+      const userId = (await resolvePrincipal(req))?.id;
+      const objectFile = await objectStorageService.getObjectEntityFile(req.path);
+      const canAccess = await objectStorageService.canAccessObjectEntity({ userId, objectFile });
+      if (!canAccess) {
+        return res.status(userId ? 403 : 401).json({ error: userId ? "Forbidden" : "Unauthorized" });
+      }
+      objectStorageService.downloadObject(objectFile, res);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      console.error("Error serving object:", error);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Customer upload endpoint for prescription scans
+  app.post("/api/prescriptions/uploads", isAuthenticated, async (req, res) => {
+    try {
+      const objectStorageService = new ObjectStorageService();
+      const uploadURL = await objectStorageService.getObjectEntityUploadURL();
+      res.json({ uploadURL });
+    } catch (error) {
+      console.error("Error creating prescription upload URL:", error);
+      res.status(500).json({ error: "Failed to create upload URL" });
+    }
+  });
+
   // Admin upload endpoint for product images
   app.post("/api/admin/objects/upload", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), async (req, res) => {
     const objectStorageService = new ObjectStorageService();
@@ -199,21 +917,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ uploadURL });
   });
 
+  // Admin object sharing: view and edit the ACL rules of a private object
+  app.get("/api/admin/objects/acl", isAuthenticated, isAdmin, checkAdminPermission('manage_object_access'), async (req, res) => {
+    const objectPath = typeof req.query.objectPath === "string" ? req.query.objectPath : "";
+    try {
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      const aclPolicy = await getObjectAclPolicy(objectFile);
+      res.json({ objectPath, aclPolicy });
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      console.error("Error fetching object ACL:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/objects/acl-rules", isAuthenticated, isAdmin, checkAdminPermission('manage_object_access'), audited("object.acl_rule.add", objectAclAudit), async (req, res) => {
+    const parsed = objectAclRuleRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const { objectPath, ...rule } = parsed.data;
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      if (!(await getObjectAclPolicy(objectFile))) {
+        return res.status(409).json({ error: "Object has no ACL policy to extend" });
+      }
+
+      const aclPolicy = await addObjectAclRule(objectFile, rule);
+      res.json({ objectPath, aclPolicy });
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      console.error("Error adding object ACL rule:", error);
+      res.status(500).json({ error: "Failed to add ACL rule" });
+    }
+  });
+
+  app.delete("/api/admin/objects/acl-rules", isAuthenticated, isAdmin, checkAdminPermission('manage_object_access'), audited("object.acl_rule.remove", objectAclAudit), async (req, res) => {
+    const parsed = objectAclRuleRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const { objectPath, ...rule } = parsed.data;
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.getObjectEntityFile(objectPath);
+      if (!(await getObjectAclPolicy(objectFile))) {
+        return res.status(409).json({ error: "Object has no ACL policy" });
+      }
+
+      const aclPolicy = await removeObjectAclRule(objectFile, rule);
+      res.json({ objectPath, aclPolicy });
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      console.error("Error removing object ACL rule:", error);
+      res.status(500).json({ error: "Failed to remove ACL rule" });
+    }
+  });
+
   // Admin set product image endpoint
-  app.put("/api/admin/product-images", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), async (req, res) => {
+  app.put("/api/admin/product-images", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("product.image.set", { entityType: "product", load: loadProduct, entityId: (req) => req.body?.productId }), async (req, res) => {
     if (!req.body.imageURL || !req.body.productId) {
       return res.status(400).json({ error: "imageURL and productId are required" });
     }
 
     try {
       const objectStorageService = new ObjectStorageService();
-      const objectPath = await objectStorageService.setProductImagePolicy(req.body.imageURL);
+      const objectPath = await objectStorageService.setProductImagePolicy(req.body.imageURL, getPrincipal(req).id);
       
       // Update the product with new image
       await storage.updateProduct(req.body.productId, { imageUrl: objectPath });
 
       res.status(200).json({ objectPath });
     } catch (error) {
+      if (respondToObjectError(error, res, "/api/admin/objects/upload")) {
+        return;
+      }
       console.error("Error setting product image:", error);
       res.status(500).json({ error: "Internal server error" });
     }
@@ -230,9 +1018,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/products/:id", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), async (req, res) => {
+  app.put("/api/admin/products/:id", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("product.update", { entityType: "product", load: loadProduct }), async (req, res) => {
+    if (req.body?.stockQuantity !== undefined) {
+      return res.status(400).json({ error: "Stock is changed through inventory receipts and adjustments" });
+    }
+
     try {
-      const updateData = insertProductSchema.partial().parse(req.body);
+      const updateData = productUpdateSchema.parse(req.body);
       const product = await storage.updateProduct(req.params.id, updateData);
       res.json({ product });
     } catch (error) {
@@ -241,10 +1033,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/products", isAuthenticated, isAdmin, checkAdminPermission('add_products'), async (req, res) => {
+  app.post("/api/admin/products", isAuthenticated, isAdmin, checkAdminPermission('add_products'), audited("product.create", { entityType: "product", load: loadProduct }), async (req, res) => {
     try {
-      const productData = insertProductSchema.parse(req.body);
-      const product = await storage.createProduct(productData);
+      const productData = productCreateSchema.parse(req.body);
+      const product = await storage.createProduct(productData, getPrincipal(req).id);
       res.json({ product });
     } catch (error) {
       console.error("Error creating product:", error);
@@ -252,7 +1044,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/products/:id", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), async (req, res) => {
+  app.delete("/api/admin/products/:id", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("product.delete", { entityType: "product", load: loadProduct }), async (req, res) => {
     try {
       await storage.deleteProduct(req.params.id);
       res.json({ success: true });
@@ -262,57 +1054,776 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin prescription management endpoints
-  app.get("/api/admin/prescriptions", isAuthenticated, isAdmin, checkAdminPermission('view_prescriptions'), async (req, res) => {
+  // Catalogue import: preview shows what would change, import applies it.
+  // Both take the same file; rows are matched to products by slug.
+  app.post(`${CATALOG_IMPORT_PATH}/preview`, isAuthenticated, isAdmin, checkAdminPermission('add_products'), checkAdminPermission('edit_products'), catalogJsonUpload, catalogUpload, async (req, res) => {
     try {
-      const prescriptions = await storage.getPrescriptions();
-      res.json({ prescriptions });
+      const { entries, ...preview } = await planCatalogImport(readCatalogUpload(req));
+      res.json(preview);
     } catch (error) {
-      console.error("Error fetching prescriptions:", error);
-      res.status(500).json({ error: "Internal server error" });
+      if (error instanceof CatalogFileError || error instanceof CsvParseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error previewing catalogue import:", error);
+      res.status(500).json({ error: "Failed to read catalogue" });
     }
   });
 
-  app.put("/api/admin/prescriptions/:id/status", isAuthenticated, isAdmin, checkAdminPermission('view_prescriptions'), async (req, res) => {
-    const { status, reviewNotes } = req.body;
-    if (!status) {
-      return res.status(400).json({ error: "Status is required" });
-    }
-
+  app.post(CATALOG_IMPORT_PATH, isAuthenticated, isAdmin, checkAdminPermission('add_products'), checkAdminPermission('edit_products'), audited("product.import", catalogImportAudit), catalogJsonUpload, catalogUpload, async (req, res) => {
     try {
-      const prescription = await storage.updatePrescriptionStatus(
-        req.params.id,
-        status,
-        reviewNotes,
-        (req as any).adminUser.id
-      );
-      res.json({ prescription });
+      const { entries, ...preview } = await planCatalogImport(readCatalogUpload(req));
+      // All or nothing: fix the listed rows and upload again
+      if (preview.summary.error > 0) {
+        return res.status(422).json({ error: "Some rows are invalid; nothing was imported", ...preview });
+      }
+      const result = await applyCatalogImport({ entries, ...preview });
+      res.json({ ...preview, result });
     } catch (error) {
-      console.error("Error updating prescription status:", error);
-      res.status(500).json({ error: "Failed to update prescription" });
+      if (error instanceof CatalogFileError || error instanceof CsvParseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error importing catalogue:", error);
+      res.status(500).json({ error: "Failed to import catalogue" });
     }
   });
 
-  // Admin user management endpoints
-  app.post("/api/admin/users/:id/admin", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), async (req, res) => {
-    const { isAdmin: makeAdmin, role } = req.body;
+  app.get("/api/admin/products/export", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), async (req, res) => {
+    const parsed = catalogExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
     try {
-      const user = await storage.setUserAdmin(req.params.id, makeAdmin, role);
-      res.json({ user });
+      const products = await storage.getCatalogProducts();
+      const filename = `catalogue-${new Date().toISOString().slice(0, 10)}.${parsed.data.format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (parsed.data.format === "json") {
+        return res.json(products.map(toCatalogRecord));
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.send(catalogToCsv(products));
     } catch (error) {
-      console.error("Error setting user admin status:", error);
-      res.status(500).json({ error: "Failed to update user" });
+      console.error("Error exporting catalogue:", error);
+      res.status(500).json({ error: "Internal server error" });
     }
   });
 
-  app.post("/api/admin/users/:id/permissions", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), async (req, res) => {
-    const { permission } = req.body;
-    if (!permission) {
-      return res.status(400).json({ error: "Permission is required" });
+  // Admin inventory endpoints
+  app.post("/api/admin/products/:id/inventory/receipts", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), audited("product.inventory.receipt", { entityType: "product", load: loadProduct }), async (req, res) => {
+    const parsed = stockReceiptSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Product not found" });
     }
 
     try {
-      const adminPermission = await storage.addAdminPermission(req.params.id, permission);
+      const { quantity, reason, batch } = parsed.data;
+      if (batch) {
+        const received = await storage.receiveBatch({
+          productId: req.params.id,
+          lotNumber: batch.lotNumber,
+          expiryDate: batch.expiryDate,
+          supplier: batch.supplier,
+          quantity,
+          reason,
+          actorId: getPrincipal(req).id,
+        });
+        return res.status(201).json(received);
+      }
+
+      const movement = await storage.recordInventoryMovement({
+        productId: req.params.id,
+        type: "receipt",
+        quantity,
+        reason,
+        actorId: getPrincipal(req).id,
+      });
+      res.status(201).json({ movement });
+    } catch (error) {
+      if (error instanceof ProductNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof DuplicateBatchError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error recording stock receipt:", error);
+      res.status(500).json({ error: "Failed to record stock receipt" });
+    }
+  });
+
+  app.post("/api/admin/products/:id/inventory/adjustments", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), audited("product.inventory.adjust", { entityType: "product", load: loadProduct }), async (req, res) => {
+    const parsed = stockAdjustmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Product not found" });
+    }
+
+    try {
+      const { type, quantity, reason, batchId } = parsed.data;
+      const movement = await storage.recordInventoryMovement({
+        productId: req.params.id,
+        type,
+        quantity: type === "write_off" ? -quantity : quantity,
+        reason,
+        actorId: getPrincipal(req).id,
+        batchId,
+      });
+      res.status(201).json({ movement });
+    } catch (error) {
+      if (error instanceof ProductNotFoundError || error instanceof BatchNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({
+          error: error.message,
+          productId: error.productId,
+          requested: error.requested,
+          available: error.available,
+        });
+      }
+      console.error("Error recording stock adjustment:", error);
+      res.status(500).json({ error: "Failed to record stock adjustment" });
+    }
+  });
+
+  app.get("/api/admin/products/:id/inventory/movements", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), async (req, res) => {
+    const parsed = inventoryMovementQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const product = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getProduct(req.params.id)
+        : undefined;
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const [movements, total] = await Promise.all([
+        storage.getInventoryMovements(product.id, parsed.data),
+        storage.countInventoryMovements(product.id),
+      ]);
+      res.json({
+        stockQuantity: product.stockQuantity ?? 0,
+        movements,
+        total,
+        limit: parsed.data.limit,
+        offset: parsed.data.offset,
+      });
+    } catch (error) {
+      console.error("Error fetching inventory movements:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/products/:id/batches", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), async (req, res) => {
+    try {
+      const product = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getProduct(req.params.id)
+        : undefined;
+      if (!product) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+
+      const batches = await storage.getProductBatches(product.id);
+      const inBatches = batches.reduce((sum, batch) => sum + batch.quantityRemaining, 0);
+      res.json({
+        stockQuantity: product.stockQuantity ?? 0,
+        unbatchedQuantity: Math.max(0, (product.stockQuantity ?? 0) - inBatches),
+        batches,
+      });
+    } catch (error) {
+      console.error("Error fetching product batches:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Lots to sell, return or write off before (or because) they expire
+  app.get("/api/admin/inventory/expiring", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), async (req, res) => {
+    const parsed = expiringBatchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const batches = await storage.getExpiringBatches(parsed.data.days);
+      res.json({ days: parsed.data.days, batches });
+    } catch (error) {
+      console.error("Error fetching expiring batches:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/inventory/reorder-suggestions", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), async (req, res) => {
+    try {
+      const groups = await getReorderSuggestions();
+      res.json({ salesWindowDays: SALES_WINDOW_DAYS, groups });
+    } catch (error) {
+      console.error("Error building reorder suggestions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Runs the scheduled low stock scan now
+  app.post("/api/admin/inventory/scan", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), async (req, res) => {
+    try {
+      const result = await scanStockLevels();
+      res.json(result);
+    } catch (error) {
+      console.error("Error scanning stock levels:", error);
+      res.status(500).json({ error: "Failed to scan stock levels" });
+    }
+  });
+
+  // Admin notifications feed
+  app.get("/api/admin/notifications", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), async (req, res) => {
+    const parsed = adminNotificationQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const [notifications, total, unread] = await Promise.all([
+        storage.getAdminNotifications(parsed.data),
+        storage.countAdminNotifications(parsed.data),
+        storage.countAdminNotifications({ type: parsed.data.type, unread: true }),
+      ]);
+      res.json({ notifications, total, unread, limit: parsed.data.limit, offset: parsed.data.offset });
+    } catch (error) {
+      console.error("Error fetching admin notifications:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/notifications/read-all", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), async (req, res) => {
+    try {
+      const updated = await storage.markAllAdminNotificationsRead(getPrincipal(req).id);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking admin notifications read:", error);
+      res.status(500).json({ error: "Failed to mark notifications read" });
+    }
+  });
+
+  app.post("/api/admin/notifications/:id/read", isAuthenticated, isAdmin, checkAdminPermission('manage_inventory'), async (req, res) => {
+    try {
+      const notification = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.markAdminNotificationRead(req.params.id, getPrincipal(req).id)
+        : undefined;
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      res.json({ notification });
+    } catch (error) {
+      console.error("Error marking admin notification read:", error);
+      res.status(500).json({ error: "Failed to mark notification read" });
+    }
+  });
+
+  // Admin category management endpoints
+  app.post("/api/admin/categories", isAuthenticated, isAdmin, checkAdminPermission('add_products'), audited("category.create", categoryAudit), async (req, res) => {
+    const parsed = categoryRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const slug = parsed.data.slug ?? slugify(parsed.data.name);
+      if (!slug) {
+        return res.status(400).json({ error: "A slug could not be derived from the name" });
+      }
+      if (await storage.getCategoryBySlug(slug)) {
+        return res.status(409).json({ error: `Category slug '${slug}' is already in use` });
+      }
+
+      const category = await storage.createCategory({ ...parsed.data, slug });
+      res.status(201).json({ category });
+    } catch (error) {
+      console.error("Error creating category:", error);
+      res.status(500).json({ error: "Failed to create category" });
+    }
+  });
+
+  app.put("/api/admin/categories/:id", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("category.update", categoryAudit), async (req, res) => {
+    const parsed = categoryUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Category not found" });
+    }
+
+    try {
+      if (parsed.data.slug) {
+        const existing = await storage.getCategoryBySlug(parsed.data.slug);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ error: `Category slug '${parsed.data.slug}' is already in use` });
+        }
+      }
+
+      const category = await storage.updateCategory(req.params.id, parsed.data);
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.json({ category });
+    } catch (error) {
+      console.error("Error updating category:", error);
+      res.status(500).json({ error: "Failed to update category" });
+    }
+  });
+
+  app.post("/api/admin/categories/:id/merge", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("category.merge", categoryAudit), async (req, res) => {
+    const parsed = mergeRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (parsed.data.targetId === req.params.id) {
+      return res.status(400).json({ error: "Cannot merge a category into itself" });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Category not found" });
+    }
+
+    try {
+      const [source, target] = await Promise.all([
+        storage.getCategory(req.params.id),
+        storage.getCategory(parsed.data.targetId),
+      ]);
+      if (!source || !target) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+
+      const movedProducts = await storage.deleteCategory(source.id, target.id);
+      res.json({ category: target, movedProducts });
+    } catch (error) {
+      console.error("Error merging categories:", error);
+      res.status(500).json({ error: "Failed to merge categories" });
+    }
+  });
+
+  app.delete("/api/admin/categories/:id", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("category.delete", categoryAudit), async (req, res) => {
+    const parsed = reassignQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    const { reassignTo } = parsed.data;
+    if (reassignTo === req.params.id) {
+      return res.status(400).json({ error: "Cannot reassign products to the category being deleted" });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Category not found" });
+    }
+
+    try {
+      const category = await storage.getCategory(req.params.id);
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      if (reassignTo && !(await storage.getCategory(reassignTo))) {
+        return res.status(404).json({ error: "Target category not found" });
+      }
+
+      const movedProducts = await storage.deleteCategory(category.id, reassignTo);
+      res.json({ success: true, movedProducts });
+    } catch (error) {
+      if (error instanceof EntityInUseError) {
+        return res.status(409).json({ error: `${error.message}; pass reassignTo to move them`, productCount: error.productCount });
+      }
+      console.error("Error deleting category:", error);
+      res.status(500).json({ error: "Failed to delete category" });
+    }
+  });
+
+  // Admin brand management endpoints
+  app.post("/api/admin/brands", isAuthenticated, isAdmin, checkAdminPermission('add_products'), audited("brand.create", brandAudit), async (req, res) => {
+    const parsed = brandRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      if (await storage.getBrandByName(parsed.data.name)) {
+        return res.status(409).json({ error: `Brand '${parsed.data.name}' already exists` });
+      }
+
+      const brand = await storage.createBrand(parsed.data);
+      res.status(201).json({ brand });
+    } catch (error) {
+      console.error("Error creating brand:", error);
+      res.status(500).json({ error: "Failed to create brand" });
+    }
+  });
+
+  app.put("/api/admin/brands/:id", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("brand.update", brandAudit), async (req, res) => {
+    const parsed = brandUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Brand not found" });
+    }
+
+    try {
+      if (parsed.data.name) {
+        const existing = await storage.getBrandByName(parsed.data.name);
+        if (existing && existing.id !== req.params.id) {
+          return res.status(409).json({ error: `Brand '${parsed.data.name}' already exists` });
+        }
+      }
+
+      const brand = await storage.updateBrand(req.params.id, parsed.data);
+      if (!brand) {
+        return res.status(404).json({ error: "Brand not found" });
+      }
+      res.json({ brand });
+    } catch (error) {
+      console.error("Error updating brand:", error);
+      res.status(500).json({ error: "Failed to update brand" });
+    }
+  });
+
+  app.post("/api/admin/brands/:id/merge", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("brand.merge", brandAudit), async (req, res) => {
+    const parsed = mergeRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (parsed.data.targetId === req.params.id) {
+      return res.status(400).json({ error: "Cannot merge a brand into itself" });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Brand not found" });
+    }
+
+    try {
+      const [source, target] = await Promise.all([
+        storage.getBrand(req.params.id),
+        storage.getBrand(parsed.data.targetId),
+      ]);
+      if (!source || !target) {
+        return res.status(404).json({ error: "Brand not found" });
+      }
+
+      const movedProducts = await storage.deleteBrand(source.id, target.id);
+      res.json({ brand: target, movedProducts });
+    } catch (error) {
+      console.error("Error merging brands:", error);
+      res.status(500).json({ error: "Failed to merge brands" });
+    }
+  });
+
+  app.delete("/api/admin/brands/:id", isAuthenticated, isAdmin, checkAdminPermission('edit_products'), audited("brand.delete", brandAudit), async (req, res) => {
+    const parsed = reassignQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    const { reassignTo } = parsed.data;
+    if (reassignTo === req.params.id) {
+      return res.status(400).json({ error: "Cannot reassign products to the brand being deleted" });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Brand not found" });
+    }
+
+    try {
+      const brand = await storage.getBrand(req.params.id);
+      if (!brand) {
+        return res.status(404).json({ error: "Brand not found" });
+      }
+      if (reassignTo && !(await storage.getBrand(reassignTo))) {
+        return res.status(404).json({ error: "Target brand not found" });
+      }
+
+      const movedProducts = await storage.deleteBrand(brand.id, reassignTo);
+      res.json({ success: true, movedProducts });
+    } catch (error) {
+      if (error instanceof EntityInUseError) {
+        return res.status(409).json({ error: `${error.message}; pass reassignTo to move them`, productCount: error.productCount });
+      }
+      console.error("Error deleting brand:", error);
+      res.status(500).json({ error: "Failed to delete brand" });
+    }
+  });
+
+  // Admin prescription management endpoints
+  app.get("/api/admin/prescriptions", isAuthenticated, isAdmin, checkAdminPermission('view_prescriptions'), async (req, res) => {
+    try {
+      const prescriptions = await storage.getPrescriptions();
+      res.json({ prescriptions });
+    } catch (error) {
+      console.error("Error fetching prescriptions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.put("/api/admin/prescriptions/:id/status", isAuthenticated, isAdmin, checkAdminPermission('view_prescriptions'), audited("prescription.review", { entityType: "prescription", load: (id) => storage.getPrescription(id) }), async (req, res) => {
+    const parsed = prescriptionReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Prescription not found" });
+    }
+
+    try {
+      const { status, reviewNotes, expiresAt } = parsed.data;
+      const prescription = await storage.updatePrescriptionStatus(
+        req.params.id,
+        status,
+        reviewNotes,
+        getPrincipal(req).id,
+        expiresAt
+      );
+      if (!prescription) {
+        return res.status(404).json({ error: "Prescription not found" });
+      }
+      res.json({ prescription });
+    } catch (error) {
+      console.error("Error updating prescription status:", error);
+      res.status(500).json({ error: "Failed to update prescription" });
+    }
+  });
+
+  // Pharmacist approval of an order held for a prescription-only item
+  app.post("/api/admin/orders/:id/prescription-approval", isAuthenticated, isAdmin, checkAdminPermission('view_prescriptions'), audited("order.prescription_approval", orderAudit), async (req, res) => {
+    const parsed = prescriptionApprovalSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      if (order.status !== "awaiting_prescription") {
+        return res.status(409).json({ error: `Order is not awaiting a prescription (status '${order.status}')` });
+      }
+
+      const prescription = await storage.getPrescription(parsed.data.prescriptionId);
+      const problems = findPrescriptionProblems(
+        prescription,
+        order.userId,
+        order.orderItems.map((item) => item.product).filter((product) => product.requiresPrescription),
+        { confirmedProductIds: parsed.data.confirmedProductIds },
+      );
+      if (problems.length > 0) {
+        return res.status(422).json({ error: "Prescription does not authorize this order", problems });
+      }
+
+      const updatedOrder = await storage.releasePrescriptionHold(order.id, parsed.data.prescriptionId, {
+        type: "admin",
+        id: getPrincipal(req).id,
+      });
+      if (!updatedOrder) {
+        return res.status(409).json({ error: "Order is no longer awaiting a prescription" });
+      }
+      res.json({ order: updatedOrder });
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({
+          error: error.message,
+          productId: error.productId,
+          requested: error.requested,
+          available: error.available,
+        });
+      }
+      console.error("Error approving order prescription:", error);
+      res.status(500).json({ error: "Failed to approve order" });
+    }
+  });
+
+  // Admin order management endpoints
+  app.get("/api/admin/orders", isAuthenticated, isAdmin, checkAdminPermission('manage_orders'), async (req, res) => {
+    const parsed = adminOrderQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const filters = withDateRangeEnd(parsed.data);
+      const [orders, total] = await Promise.all([
+        storage.findOrders(filters),
+        storage.countOrders(filters),
+      ]);
+      res.json({ orders, total, limit: parsed.data.limit, offset: parsed.data.offset });
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/orders/:id", isAuthenticated, isAdmin, checkAdminPermission('manage_orders'), async (req, res) => {
+    try {
+      const order = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getOrder(req.params.id)
+        : undefined;
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      // The batches (lots) each item was taken from
+      const allocations = await storage.getOrderAllocations(order.id);
+      res.json({ order, allocations });
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/orders/:id/events", isAuthenticated, isAdmin, checkAdminPermission('manage_orders'), async (req, res) => {
+    try {
+      const order = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getOrder(req.params.id)
+        : undefined;
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      const events = await storage.getOrderEvents(order.id);
+      res.json({ events });
+    } catch (error) {
+      console.error("Error fetching order events:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/orders/:id/status", isAuthenticated, isAdmin, checkAdminPermission('manage_orders'), audited("order.status", orderAudit), async (req, res) => {
+    const parsed = orderStatusChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+    if (!z.string().uuid().safeParse(req.params.id).success) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    try {
+      const actor = { type: "admin" as const, id: getPrincipal(req).id };
+      // Refunds go back to the customer through Stripe before the status changes
+      if (parsed.data.status === "refunded") {
+        const existing = await storage.getOrder(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Order not found" });
+        }
+        const order = await refundOrder(existing, actor, parsed.data.note);
+        return res.json({ order });
+      }
+
+      const order = await storage.updateOrderStatus(req.params.id, { ...parsed.data, actor });
+      res.json({ order });
+    } catch (error) {
+      if (error instanceof OrderNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof InvalidOrderTransitionError) {
+        return res.status(409).json({ error: error.message, allowed: error.allowed });
+      }
+      if (error instanceof OrderNotRefundableError) {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error instanceof PaymentsNotConfiguredError) {
+        return res.status(503).json({ error: "Payments are not available" });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({
+          error: error.message,
+          productId: error.productId,
+          requested: error.requested,
+          available: error.available,
+        });
+      }
+      console.error("Error updating order status:", error);
+      res.status(500).json({ error: "Failed to update order" });
+    }
+  });
+
+  // Admin user management endpoints
+  // The permission catalogue and the permissions each role bundles
+  app.get("/api/admin/permissions", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), (req, res) => {
+    res.json({
+      permissions: PERMISSION_NAMES.map((name) => ({ name, description: PERMISSIONS[name] })),
+      roles: ADMIN_ROLE_NAMES.map((name) => ({ name, ...ADMIN_ROLES[name] })),
+    });
+  });
+
+  app.post("/api/admin/users/:id/admin", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), audited("user.admin", userAudit), async (req, res) => {
+    const parsed = adminStatusRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    const principal = getPrincipal(req);
+    if (req.params.id === principal.id) {
+      return res.status(403).json({ error: "You cannot change your own admin access" });
+    }
+
+    try {
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      // Only super admins can create or change other super admins
+      const touchesSuperAdmin = parsed.data.role === "super_admin" || target.adminRole === "super_admin";
+      if (touchesSuperAdmin && principal.role !== "super_admin") {
+        return res.status(403).json({ error: "Only a super admin can change super admin access" });
+      }
+      if (parsed.data.isAdmin && parsed.data.role) {
+        const missing = findUndelegablePermissions(principal.permissions, ADMIN_ROLES[parsed.data.role].permissions);
+        if (missing.length > 0) {
+          return res.status(403).json({ error: "You can only assign roles whose permissions you hold", missing });
+        }
+      }
+
+      const user = await storage.setUserAdmin(req.params.id, parsed.data.isAdmin, parsed.data.role);
+      res.json({ user });
+    } catch (error) {
+      console.error("Error setting user admin status:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  app.get("/api/admin/users/:id/permissions", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), async (req, res) => {
+    try {
+      const user = await storage.getUserWithPermissions(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({
+        isAdmin: !!user.isAdmin,
+        role: user.adminRole,
+        grants: user.adminPermissions,
+        permissions: Array.from(resolvePermissions(user)),
+      });
+    } catch (error) {
+      console.error("Error fetching admin permissions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/permissions", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), audited("user.permission.add", userAudit), async (req, res) => {
+    const parsed = permissionGrantSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    const principal = getPrincipal(req);
+    if (req.params.id === principal.id) {
+      return res.status(403).json({ error: "You cannot grant permissions to yourself" });
+    }
+    if (findUndelegablePermissions(principal.permissions, [parsed.data.permission]).length > 0) {
+      return res.status(403).json({ error: `You can only grant permissions you hold; you do not have '${parsed.data.permission}'` });
+    }
+
+    try {
+      if (!(await storage.getUser(req.params.id))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const adminPermission = await storage.addAdminPermission(req.params.id, parsed.data.permission);
       res.json({ adminPermission });
     } catch (error) {
       console.error("Error adding admin permission:", error);
@@ -320,14 +1831,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Revokes an individually granted permission. Permissions that come from the
+  // user's role are changed by changing the role.
+  app.delete("/api/admin/users/:id/permissions/:permission", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), audited("user.permission.remove", userAudit), async (req, res) => {
+    const { permission } = req.params;
+    if (!isPermission(permission)) {
+      return res.status(400).json({ error: `Unknown permission '${permission}'` });
+    }
+
+    const principal = getPrincipal(req);
+    if (req.params.id === principal.id) {
+      return res.status(403).json({ error: "You cannot revoke your own permissions" });
+    }
+    if (findUndelegablePermissions(principal.permissions, [permission]).length > 0) {
+      return res.status(403).json({ error: `You can only revoke permissions you hold; you do not have '${permission}'` });
+    }
+
+    try {
+      const target = await storage.getUser(req.params.id);
+      if (!target) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (target.adminRole === "super_admin" && principal.role !== "super_admin") {
+        return res.status(403).json({ error: "Only a super admin can change super admin access" });
+      }
+
+      const removed = await storage.removeAdminPermission(req.params.id, permission);
+      if (!removed) {
+        return res.status(404).json({ error: "Permission not granted to this user" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing admin permission:", error);
+      res.status(500).json({ error: "Failed to remove permission" });
+    }
+  });
+
+  // Admin login lockouts
+  app.get("/api/admin/login-lockouts", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), async (req, res) => {
+    const parsed = loginLockoutQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const lockouts = await storage.getLoginLockouts(parsed.data.active);
+      res.json({ lockouts });
+    } catch (error) {
+      console.error("Error fetching login lockouts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Lifts a lockout and resets its failure count
+  app.delete("/api/admin/login-lockouts/:id", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), audited("login_lockout.clear", loginLockoutAudit), async (req, res) => {
+    try {
+      const removed = z.string().uuid().safeParse(req.params.id).success
+        && await storage.deleteLoginLockout(req.params.id);
+      if (!removed) {
+        return res.status(404).json({ error: "Lockout not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error clearing login lockout:", error);
+      res.status(500).json({ error: "Failed to clear lockout" });
+    }
+  });
+
+  app.get("/api/admin/login-attempts", isAuthenticated, isAdmin, checkAdminPermission('manage_users'), async (req, res) => {
+    const parsed = loginAttemptQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const attempts = await storage.getLoginAttempts(parsed.data);
+      res.json({ attempts, limit: parsed.data.limit, offset: parsed.data.offset });
+    } catch (error) {
+      console.error("Error fetching login attempts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Admin audit log
+  app.get("/api/admin/audit", isAuthenticated, isAdmin, checkAdminPermission('view_audit_log'), async (req, res) => {
+    const parsed = auditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const filters = withDateRangeEnd(parsed.data);
+      const [entries, total] = await Promise.all([
+        storage.getAuditLog(filters),
+        storage.countAuditLog(filters),
+      ]);
+      res.json({ entries, total, limit: parsed.data.limit, offset: parsed.data.offset });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/audit/export", isAuthenticated, isAdmin, checkAdminPermission('view_audit_log'), async (req, res) => {
+    const parsed = auditExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const entries = await storage.getAuditLog(withDateRangeEnd(parsed.data));
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(auditLogToCsv(entries));
+    } catch (error) {
+      console.error("Error exporting audit log:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Check if current user is admin
   app.get("/api/admin/me", isAuthenticated, async (req, res) => {
     try {
-      const user = await storage.getUserWithPermissions((req as any).user.claims.sub);
+      const user = await storage.getUserWithPermissions(getPrincipal(req).id);
       if (!user?.isAdmin) {
         return res.status(403).json({ error: "Not an admin" });
       }
-      res.json({ user });
+      res.json({ user, permissions: Array.from(getPrincipal(req).permissions) });
     } catch (error) {
       console.error("Error checking admin status:", error);
       res.status(500).json({ error: "Internal server error" });
@@ -335,54 +1966,476 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Regular prescription submission (non-admin)
-  app.post("/api/prescriptions/submit", isAuthenticated, async (req, res) => {
+  app.post("/api/prescriptions/submit", isAuthenticated, requireVerifiedEmail, async (req, res) => {
     try {
-      const prescriptionData = insertPrescriptionSchema.parse({
+      const userId = getPrincipal(req).id;
+      const prescriptionData = prescriptionSubmissionSchema.parse({
         ...req.body,
-        userId: (req as any).user.claims.sub,
+        userId,
       });
 
+      // Uploaded scans become private objects owned by the submitting user
+      prescriptionData.imageUrls = await claimPrescriptionImages(userId, prescriptionData.imageUrls ?? []);
+
       const prescription = await storage.createPrescription(prescriptionData);
       res.json({ prescription });
     } catch (error) {
+      if (respondToObjectError(error, res)) {
+        return;
+      }
       console.error("Error submitting prescription:", error);
       res.status(500).json({ error: "Failed to submit prescription" });
     }
   });
 
+  // Customer prescription history
+  app.get("/api/prescriptions", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getPrincipal(req).id;
+      const prescriptions = await storage.getPrescriptions(userId);
+      res.json({ prescriptions: prescriptions.map(toCustomerPrescription) });
+    } catch (error) {
+      console.error("Error fetching prescriptions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/prescriptions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getPrincipal(req).id;
+      const prescription = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getPrescription(req.params.id)
+        : undefined;
+      if (!prescription || prescription.userId !== userId) {
+        return res.status(404).json({ error: "Prescription not found" });
+      }
+      res.json({ prescription: toCustomerPrescription(prescription) });
+    } catch (error) {
+      console.error("Error fetching prescription:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/prescriptions/:id/withdraw", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getPrincipal(req).id;
+      const existing = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getPrescription(req.params.id)
+        : undefined;
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ error: "Prescription not found" });
+      }
+
+      const prescription = await storage.withdrawPrescription(existing.id, userId);
+      if (!prescription) {
+        return res.status(409).json({ error: `Only pending prescriptions can be withdrawn (status '${existing.status}')` });
+      }
+      res.json({ prescription: toCustomerPrescription({ ...existing, ...prescription }) });
+    } catch (error) {
+      console.error("Error withdrawing prescription:", error);
+      res.status(500).json({ error: "Failed to withdraw prescription" });
+    }
+  });
+
+  app.post("/api/prescriptions/:id/resubmit", isAuthenticated, requireVerifiedEmail, async (req, res) => {
+    const parsed = prescriptionResubmissionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const userId = getPrincipal(req).id;
+      const existing = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getPrescription(req.params.id)
+        : undefined;
+      if (!existing || existing.userId !== userId) {
+        return res.status(404).json({ error: "Prescription not found" });
+      }
+      if (existing.status !== "rejected") {
+        return res.status(409).json({ error: `Only rejected prescriptions can be resubmitted (status '${existing.status}')` });
+      }
+
+      const imageUrls = await claimPrescriptionImages(userId, parsed.data.imageUrls);
+      const prescription = await storage.resubmitPrescription(existing.id, userId, { ...parsed.data, imageUrls });
+      if (!prescription) {
+        return res.status(409).json({ error: "Prescription was modified concurrently" });
+      }
+      res.json({ prescription: toCustomerPrescription({ ...existing, ...prescription, reviewer: null }) });
+    } catch (error) {
+      if (respondToObjectError(error, res)) {
+        return;
+      }
+      console.error("Error resubmitting prescription:", error);
+      res.status(500).json({ error: "Failed to resubmit prescription" });
+    }
+  });
+
   // Existing routes...
   app.get("/api/products", async (req, res) => {
+    const parsed = productQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
     try {
-      const {
-        categoryId,
-        brandId,
-        search,
-        minPrice,
-        maxPrice,
-        inStock,
-        limit = 50,
-        offset = 0,
-      } = req.query;
-
-      const filters: any = {};
-      
-      if (categoryId) filters.categoryId = categoryId as string;
-      if (brandId) filters.brandId = brandId as string;
-      if (search) filters.search = search as string;
-      if (minPrice) filters.minPrice = parseFloat(minPrice as string);
-      if (maxPrice) filters.maxPrice = parseFloat(maxPrice as string);
-      if (inStock !== undefined) filters.inStock = inStock === 'true';
-      filters.limit = parseInt(limit as string);
-      filters.offset = parseInt(offset as string);
-
-      const products = await storage.getProducts(filters);
-      res.json({ products });
+      const { category, ...filters } = parsed.data;
+      const productFilters = { ...filters, categorySlug: category };
+
+      const [products, total] = await Promise.all([
+        storage.getProducts(productFilters),
+        storage.getProductCount(productFilters),
+      ]);
+      res.json({ products, total, limit: filters.limit, offset: filters.offset });
     } catch (error) {
       console.error("Error fetching products:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // Ranked full-text product search with facet counts
+  app.get("/api/products/search", async (req, res) => {
+    const parsed = productSearchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const { q, category, ...filters } = parsed.data;
+      const result = await storage.searchProducts(q, { ...filters, categorySlug: category });
+      res.json({ ...result, limit: filters.limit, offset: filters.offset });
+    } catch (error) {
+      console.error("Error searching products:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/products/:slug", async (req, res) => {
+    try {
+      const product = await storage.getProductBySlug(req.params.slug);
+      if (!product || !product.isActive) {
+        return res.status(404).json({ error: "Product not found" });
+      }
+      res.json({ product });
+    } catch (error) {
+      console.error("Error fetching product:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Public catalogue endpoints
+  app.get("/api/categories", async (req, res) => {
+    try {
+      const categories = await storage.getCategoriesWithProductCounts();
+      res.json({ categories });
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/categories/:slug/products", async (req, res) => {
+    const parsed = scopedProductQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const category = await storage.getCategoryBySlug(req.params.slug);
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+
+      const filters = { ...parsed.data, categoryId: category.id };
+      const [products, total] = await Promise.all([
+        storage.getProducts(filters),
+        storage.getProductCount(filters),
+      ]);
+      res.json({ category, products, total, limit: filters.limit, offset: filters.offset });
+    } catch (error) {
+      console.error("Error fetching category products:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/brands", async (req, res) => {
+    try {
+      const brands = await storage.getBrandsWithProductCounts();
+      res.json({ brands });
+    } catch (error) {
+      console.error("Error fetching brands:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/brands/:id/products", async (req, res) => {
+    const parsed = scopedProductQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const brand = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getBrand(req.params.id)
+        : undefined;
+      if (!brand) {
+        return res.status(404).json({ error: "Brand not found" });
+      }
+
+      const filters = { ...parsed.data, brandId: brand.id };
+      const [products, total] = await Promise.all([
+        storage.getProducts(filters),
+        storage.getProductCount(filters),
+      ]);
+      res.json({ brand, products, total, limit: filters.limit, offset: filters.offset });
+    } catch (error) {
+      console.error("Error fetching brand products:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Cart endpoints
+  app.get("/api/cart", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getPrincipal(req).id;
+      const items = await storage.getCartItems(userId);
+      res.json({ cart: buildCartSummary(items) });
+    } catch (error) {
+      console.error("Error fetching cart:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/cart", isAuthenticated, async (req, res) => {
+    const parsed = cartItemRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const userId = getPrincipal(req).id;
+      const { productId, quantity } = parsed.data;
+
+      const existingItem = await storage.getCartItem(userId, productId);
+      const problem = await validateCartProduct(productId, (existingItem?.quantity ?? 0) + quantity);
+      if (problem) {
+        return res.status(problem.status).json({ error: problem.error });
+      }
+
+      await storage.addToCart(userId, productId, quantity);
+      const items = await storage.getCartItems(userId);
+      res.json({ cart: buildCartSummary(items) });
+    } catch (error) {
+      console.error("Error adding to cart:", error);
+      res.status(500).json({ error: "Failed to add item to cart" });
+    }
+  });
+
+  app.patch("/api/cart/:productId", isAuthenticated, async (req, res) => {
+    const parsed = cartQuantitySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const userId = getPrincipal(req).id;
+      const { productId } = req.params;
+
+      const existingItem = z.string().uuid().safeParse(productId).success
+        ? await storage.getCartItem(userId, productId)
+        : undefined;
+      if (!existingItem) {
+        return res.status(404).json({ error: "Item not in cart" });
+      }
+
+      const problem = await validateCartProduct(productId, parsed.data.quantity);
+      if (problem) {
+        return res.status(problem.status).json({ error: problem.error });
+      }
+
+      await storage.updateCartItem(userId, productId, parsed.data.quantity);
+      const items = await storage.getCartItems(userId);
+      res.json({ cart: buildCartSummary(items) });
+    } catch (error) {
+      console.error("Error updating cart item:", error);
+      res.status(500).json({ error: "Failed to update cart item" });
+    }
+  });
+
+  app.delete("/api/cart/:productId", isAuthenticated, async (req, res) => {
+    if (!z.string().uuid().safeParse(req.params.productId).success) {
+      return res.status(404).json({ error: "Item not in cart" });
+    }
+
+    try {
+      const userId = getPrincipal(req).id;
+      await storage.removeFromCart(userId, req.params.productId);
+      const items = await storage.getCartItems(userId);
+      res.json({ cart: buildCartSummary(items) });
+    } catch (error) {
+      console.error("Error removing cart item:", error);
+      res.status(500).json({ error: "Failed to remove cart item" });
+    }
+  });
+
+  app.delete("/api/cart", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getPrincipal(req).id;
+      await storage.clearCart(userId);
+      res.json({ cart: buildCartSummary([]) });
+    } catch (error) {
+      console.error("Error clearing cart:", error);
+      res.status(500).json({ error: "Failed to clear cart" });
+    }
+  });
+
+  // Checkout: converts the current cart into an order and reserves stock
+  app.post("/api/checkout", isAuthenticated, async (req, res) => {
+    const parsed = checkoutRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const userId = getPrincipal(req).id;
+      const { order, prescriptionProblems } = await storage.checkoutCart(userId, parsed.data);
+      if (prescriptionProblems.length > 0) {
+        // Stock is reserved, but payment waits for a pharmacist to approve a prescription
+        return res.status(202).json({ order, prescriptionProblems });
+      }
+      res.status(201).json({ order });
+    } catch (error) {
+      if (error instanceof CartEmptyError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof PrescriptionNotFoundError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof ProductUnavailableError) {
+        return res.status(409).json({ error: error.message, productId: error.productId });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({
+          error: error.message,
+          productId: error.productId,
+          requested: error.requested,
+          available: error.available,
+        });
+      }
+      console.error("Error during checkout:", error);
+      res.status(500).json({ error: "Failed to place order" });
+    }
+  });
+
+  // Customer order history
+  app.get("/api/orders", isAuthenticated, async (req, res) => {
+    const parsed = orderQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const userId = getPrincipal(req).id;
+      const filters = withDateRangeEnd(parsed.data);
+      const [orders, total] = await Promise.all([
+        storage.getOrders(userId, filters),
+        storage.getOrderCount(userId, filters),
+      ]);
+      const events = await storage.getOrderEventsForOrders(orders.map((order) => order.id));
+      res.json({
+        orders: orders.map((order) => toOrderDetail(order, events.filter((event) => event.orderId === order.id))),
+        total,
+        limit: parsed.data.limit,
+        offset: parsed.data.offset,
+      });
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/orders/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getPrincipal(req).id;
+      const order = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getOrder(req.params.id)
+        : undefined;
+      // Other users' orders are reported as missing rather than forbidden
+      if (!order || order.userId !== userId) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+      const events = await storage.getOrderEventsForOrders([order.id]);
+      res.json({ order: toOrderDetail(order, events) });
+    } catch (error) {
+      console.error("Error fetching order:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Creates (or reuses) a Stripe PaymentIntent for one of the user's pending orders
+  app.post("/api/orders/:id/payment-intent", isAuthenticated, async (req, res) => {
+    try {
+      const userId = getPrincipal(req).id;
+      const order = z.string().uuid().safeParse(req.params.id).success
+        ? await storage.getOrder(req.params.id)
+        : undefined;
+      if (!order || order.userId !== userId) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      if (order.status !== "pending" || !["pending", "failed"].includes(order.paymentStatus ?? "pending")) {
+        return res.status(409).json({ error: `Order is not awaiting payment (status '${order.status}')` });
+      }
+
+      const user = await storage.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const paymentIntent = await createOrderPaymentIntent(order, user);
+      res.json({
+        clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+      });
+    } catch (error) {
+      if (error instanceof PaymentsNotConfiguredError) {
+        return res.status(503).json({ error: "Payments are not available" });
+      }
+      console.error("Error creating payment intent:", error);
+      res.status(500).json({ error: "Failed to create payment" });
+    }
+  });
+
+  // Stripe webhook: signature-verified payment reconciliation
+  app.post("/api/webhooks/stripe", async (req, res) => {
+    const signature = req.headers["stripe-signature"];
+    const rawBody = (req as any).rawBody as Buffer | undefined;
+    if (typeof signature !== "string" || !rawBody) {
+      return res.status(400).json({ error: "Missing Stripe signature" });
+    }
+
+    let event;
+    try {
+      event = constructWebhookEvent(rawBody, signature);
+    } catch (error) {
+      if (error instanceof PaymentsNotConfiguredError) {
+        return res.status(503).json({ error: "Payments are not available" });
+      }
+      console.error("Stripe webhook signature verification failed:", error);
+      return res.status(400).json({ error: "Invalid Stripe signature" });
+    }
+
+    try {
+      await reconcilePaymentEvent(event);
+      res.json({ received: true });
+    } catch (error) {
+      // A non-2xx response makes Stripe retry the delivery later
+      console.error(`Error handling Stripe event ${event.id}:`, error);
+      res.status(500).json({ error: "Failed to process event" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
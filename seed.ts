@@ -0,0 +1,127 @@
+// Database seeding CLI.
+//
+//   tsx seed.ts seed   [--fixtures development|test] [--catalog <file>] [--confirm]
+//   tsx seed.ts reset  [--confirm]
+//   tsx seed.ts status
+//
+// With NODE_ENV=production, seed and reset refuse to run without --confirm.
+import { closeDatabaseConnection } from "./db";
+import { FIXTURE_SETS, FIXTURE_SET_NAMES, isFixtureSetName, type FixtureSetName } from "./fixtures";
+import { seedFixtureSet, seedCatalogFile, resetDatabase, getSeedStatus, isProduction, SeedError } from "./seeding";
+
+const COMMANDS = ["seed", "reset", "status"] as const;
+type Command = typeof COMMANDS[number];
+
+interface CliOptions {
+  command: Command;
+  fixtures: FixtureSetName;
+  catalog?: string;
+  confirm: boolean;
+}
+
+const USAGE = `Usage: tsx seed.ts <${COMMANDS.join("|")}> [options]
+
+  seed    Upsert a fixture set (and optionally a catalogue file)
+  reset   Delete the catalogue, orders and carts
+  status  Show row counts and which fixture sets are present
+
+Options:
+  --fixtures <${FIXTURE_SET_NAMES.join("|")}>  Fixture set to seed (default: development)
+  --catalog <file>   Also import a .json or .csv catalogue file
+  --confirm          Required to seed or reset when NODE_ENV=production`;
+
+function parseArgs(argv: string[]): CliOptions {
+  const [command, ...rest] = argv;
+  if (!command || !(COMMANDS as readonly string[]).includes(command)) {
+    throw new SeedError(command ? `Unknown command '${command}'` : "No command given");
+  }
+
+  const options: CliOptions = { command: command as Command, fixtures: "development", confirm: false };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "--confirm") {
+      options.confirm = true;
+    } else if (arg === "--fixtures") {
+      const value = rest[++i];
+      if (!value || !isFixtureSetName(value)) {
+        throw new SeedError(`--fixtures must be one of: ${FIXTURE_SET_NAMES.join(", ")}`);
+      }
+      options.fixtures = value;
+    } else if (arg === "--catalog") {
+      const value = rest[++i];
+      if (!value) {
+        throw new SeedError("--catalog needs a file path");
+      }
+      options.catalog = value;
+    } else {
+      throw new SeedError(`Unknown option '${arg}'`);
+    }
+  }
+  return options;
+}
+
+async function run(options: CliOptions): Promise<void> {
+  if (options.command !== "status" && isProduction() && !options.confirm) {
+    throw new SeedError(`Refusing to ${options.command} with NODE_ENV=production; pass --confirm to proceed`);
+  }
+
+  switch (options.command) {
+    case "seed": {
+      const set = FIXTURE_SETS[options.fixtures];
+      console.log(`🌱 Seeding '${options.fixtures}' fixtures: ${set.description}`);
+      const result = await seedFixtureSet(set);
+      console.log(
+        `✅ Categories: ${result.categories.created} created, ${result.categories.updated} updated; ` +
+        `brands: ${result.brands} upserted; ` +
+        `products: ${result.products.created} created, ${result.products.updated} updated`,
+      );
+      if (options.catalog) {
+        console.log(`📦 Importing catalogue ${options.catalog}`);
+        const imported = await seedCatalogFile(options.catalog);
+        console.log(
+          `✅ Products: ${imported.created} created, ${imported.updated} updated; ` +
+          `${imported.brandsCreated} brands and ${imported.categoriesCreated} categories created`,
+        );
+      }
+      break;
+    }
+    case "reset":
+      console.log("🗑️  Deleting catalogue, orders and carts...");
+      await resetDatabase();
+      console.log("✅ Database reset");
+      break;
+    case "status": {
+      const status = await getSeedStatus(FIXTURE_SETS);
+      console.log(`Environment: ${status.environment}`);
+      for (const [key, value] of Object.entries(status.summary)) {
+        console.log(`  ${key}: ${value}`);
+      }
+      for (const [name, { present, total }] of Object.entries(status.fixtures)) {
+        console.log(`  fixtures '${name}': ${present}/${total} products present`);
+      }
+      break;
+    }
+  }
+}
+
+let options: CliOptions;
+try {
+  options = parseArgs(process.argv.slice(2));
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+let exitCode = 0;
+try {
+  await run(options);
+} catch (error) {
+  exitCode = 1;
+  if (error instanceof SeedError) {
+    console.error(`❌ ${error.message}`);
+  } else {
+    console.error("❌ Seeding failed:", error);
+  }
+}
+await closeDatabaseConnection();
+process.exit(exitCode);
@@ -0,0 +1,141 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { InsertProduct } from "@shared/schema";
+import { storage, type CatalogImportResult, type DatabaseSummary } from "./storage";
+import { parseCatalogFile, planCatalogImport, applyCatalogImport, CatalogFileError } from "./catalogImport";
+import type { FixtureSet, FixtureProduct } from "./fixtures";
+
+export interface SeedResult {
+  categories: { created: number; updated: number };
+  brands: number;
+  products: { created: number; updated: number };
+}
+
+export interface SeedStatus {
+  environment: string;
+  summary: DatabaseSummary;
+  // Fixture products found in the database, by set name
+  fixtures: Record<string, { present: number; total: number }>;
+}
+
+export class SeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SeedError";
+    Object.setPrototypeOf(this, SeedError.prototype);
+  }
+}
+
+export function isProduction(): boolean {
+  return process.env.NODE_ENV === "production";
+}
+
+// Every field a fixture controls is written on each run, so seeding again
+// puts back anything edited since. Stock is the exception: see
+// storage.upsertProductBySlug.
+function toInsertProduct(product: FixtureProduct, categoryId: string, brandId: string): InsertProduct {
+  return {
+    name: product.name,
+    slug: product.slug,
+    description: product.description ?? null,
+    shortDescription: product.shortDescription ?? null,
+    price: product.price,
+    dosage: product.dosage ?? null,
+    categoryId,
+    brandId,
+    imageUrl: product.imageUrl ?? null,
+    stockQuantity: product.stockQuantity,
+    reorderThreshold: product.reorderThreshold ?? null,
+    requiresPrescription: product.requiresPrescription ?? false,
+    isActive: product.isActive ?? true,
+    rating: product.rating ?? "0",
+    reviewCount: product.reviewCount ?? 0,
+  };
+}
+
+// Upserts a fixture set: categories by slug, brands by name, products by slug.
+// Running it twice leaves the database as after the first run.
+export async function seedFixtureSet(set: FixtureSet): Promise<SeedResult> {
+  const result: SeedResult = {
+    categories: { created: 0, updated: 0 },
+    brands: 0,
+    products: { created: 0, updated: 0 },
+  };
+
+  const existingCategories = new Set((await storage.getCategories()).map((category) => category.slug));
+  const categoryIds = new Map<string, string>();
+  for (const category of set.categories) {
+    const upserted = await storage.upsertCategory(category);
+    categoryIds.set(upserted.slug, upserted.id);
+    result.categories[existingCategories.has(upserted.slug) ? "updated" : "created"]++;
+  }
+
+  const brandIds = new Map<string, string>();
+  for (const brand of set.brands) {
+    const upserted = await storage.upsertBrand(brand);
+    brandIds.set(brand.name.trim().toLowerCase(), upserted.id);
+    result.brands++;
+  }
+
+  for (const product of set.products) {
+    const categoryId = categoryIds.get(product.category);
+    const brandId = brandIds.get(product.brand.trim().toLowerCase());
+    if (!categoryId || !brandId) {
+      throw new SeedError(
+        `Fixture product '${product.slug}' refers to ${categoryId ? `brand '${product.brand}'` : `category '${product.category}'`}, which is not in the set`,
+      );
+    }
+    const { created } = await storage.upsertProductBySlug(toInsertProduct(product, categoryId, brandId));
+    result.products[created ? "created" : "updated"]++;
+  }
+
+  return result;
+}
+
+// Imports a catalogue file (.json or .csv, in the catalog_data.json format)
+// through the same path as the admin import. Rows with errors stop the seed.
+export async function seedCatalogFile(file: string): Promise<CatalogImportResult> {
+  const extension = path.extname(file).toLowerCase();
+  if (extension !== ".json" && extension !== ".csv") {
+    throw new SeedError("Catalogue files must be .json or .csv");
+  }
+  const content = fs.readFileSync(file, "utf8");
+
+  let records;
+  try {
+    records = parseCatalogFile(extension === ".json" ? JSON.parse(content) : content, extension === ".json" ? "json" : "csv");
+  } catch (error) {
+    if (error instanceof CatalogFileError || error instanceof SyntaxError) {
+      throw new SeedError(`${file}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const plan = await planCatalogImport(records);
+  if (plan.summary.error > 0) {
+    const problems = plan.rows
+      .filter((row) => row.action === "error")
+      .map((row) => `  row ${row.row}: ${row.errors?.join("; ")}`);
+    throw new SeedError(`${file} has ${plan.summary.error} invalid rows:\n${problems.join("\n")}`);
+  }
+  return await applyCatalogImport(plan);
+}
+
+// Removes the catalogue, orders and carts (see storage.clearAllData)
+export async function resetDatabase(): Promise<void> {
+  await storage.clearAllData();
+}
+
+export async function getSeedStatus(sets: Record<string, FixtureSet>): Promise<SeedStatus> {
+  const fixtures: SeedStatus["fixtures"] = {};
+  for (const [name, set] of Object.entries(sets)) {
+    const found = await storage.getCatalogProducts(set.products.map((product) => product.slug));
+    fixtures[name] = { present: found.length, total: set.products.length };
+  }
+
+  return {
+    environment: process.env.NODE_ENV || "development",
+    summary: await storage.getDatabaseSummary(),
+    fixtures,
+  };
+}
@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -10,6 +11,7 @@ import {
   decimal,
   boolean,
   uuid,
+  date,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -32,22 +34,63 @@ export const users = pgTable("users", {
   username: varchar("username").unique(),
   password: varchar("password"),
   email: varchar("email").unique(),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  pendingEmail: varchar("pending_email"), // requested new address; replaces email once verified
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   stripeCustomerId: varchar("stripe_customer_id"),
   stripeSubscriptionId: varchar("stripe_subscription_id"),
   isAdmin: boolean("is_admin").default(false),
-  adminRole: varchar("admin_role", { length: 50 }), // 'super_admin', 'product_manager', 'prescription_viewer'
+  adminRole: varchar("admin_role", { length: 50 }), // see ADMIN_ROLES in permissions.ts
+  deletedAt: timestamp("deleted_at"), // set when the user deletes their account; personal details are erased
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Single-use tokens for password resets and email verification. Only a hash
+// of the token is stored; the token itself is sent to the user by email.
+export const authTokens = pgTable("auth_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  purpose: varchar("purpose", { length: 30 }).notNull(), // 'password_reset', 'email_verification'
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  email: varchar("email").notNull(), // the address the token was sent to
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_auth_tokens_user").on(table.userId, table.purpose)]);
+
+// Every password login attempt, successful or not
+export const loginAttempts = pgTable("login_attempts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: varchar("username").notNull(), // as submitted, lowercased
+  userId: varchar("user_id").references(() => users.id),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  succeeded: boolean("succeeded").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_login_attempts_username").on(table.username, table.createdAt),
+  index("IDX_login_attempts_ip").on(table.ipAddress, table.createdAt),
+]);
+
+// Recent login failures per account or IP address, and any lockout they caused
+export const loginLockouts = pgTable("login_lockouts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: varchar("scope", { length: 20 }).notNull(), // 'account' or 'ip'
+  key: varchar("key").notNull(), // the lowercased username or the IP address
+  failureCount: integer("failure_count").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_login_lockouts_scope_key").on(table.scope, table.key)]);
+
 // Admin permissions table
 export const adminPermissions = pgTable("admin_permissions", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
-  permission: varchar("permission", { length: 50 }).notNull(), // 'edit_products', 'add_products', 'view_prescriptions', 'manage_users'
+  permission: varchar("permission", { length: 50 }).notNull(), // see PERMISSIONS in permissions.ts
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -61,10 +104,11 @@ export const prescriptions = pgTable("prescriptions", {
   prescriptionDate: timestamp("prescription_date").notNull(),
   medications: text("medications"),
   imageUrls: text("image_urls").array(),
-  status: varchar("status", { length: 20 }).default("pending"), // 'pending', 'verified', 'rejected'
+  status: varchar("status", { length: 20 }).default("pending"), // 'pending', 'verified', 'rejected', 'withdrawn'
   reviewNotes: text("review_notes"),
   reviewedBy: varchar("reviewed_by").references(() => users.id),
   reviewedAt: timestamp("reviewed_at"),
+  expiresAt: timestamp("expires_at"), // set by the reviewing pharmacist; defaults to a validity window from prescriptionDate
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -100,6 +144,7 @@ export const products = pgTable("products", {
   brandId: uuid("brand_id").references(() => brands.id),
   imageUrl: varchar("image_url"),
   stockQuantity: integer("stock_quantity").default(0),
+  reorderThreshold: integer("reorder_threshold"), // alert when stock falls to this level; null means only when out of stock
   requiresPrescription: boolean("requires_prescription").default(false),
   isActive: boolean("is_active").default(true),
   rating: decimal("rating", { precision: 3, scale: 2 }).default('0'),
@@ -123,12 +168,13 @@ export const orders = pgTable("orders", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
   orderNumber: varchar("order_number", { length: 50 }).notNull().unique(),
-  status: varchar("status", { length: 20 }).notNull().default('pending'),
+  status: varchar("status", { length: 30 }).notNull().default('pending'), // see ORDER_STATUSES in orderStatus.ts
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   shippingAddress: jsonb("shipping_address"),
   billingAddress: jsonb("billing_address"),
-  paymentStatus: varchar("payment_status", { length: 20 }).default('pending'),
+  paymentStatus: varchar("payment_status", { length: 20 }).default('pending'), // see PAYMENT_STATUSES in orderStatus.ts
   stripePaymentIntentId: varchar("stripe_payment_intent_id"),
+  prescriptionId: uuid("prescription_id").references(() => prescriptions.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -143,6 +189,96 @@ export const orderItems = pgTable("order_items", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Lots of a product received from a supplier. Stock received without a lot
+// (or before batches were tracked) is not in any batch.
+export const productBatches = pgTable("product_batches", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  lotNumber: varchar("lot_number", { length: 100 }).notNull(),
+  expiryDate: date("expiry_date", { mode: "string" }).notNull(), // YYYY-MM-DD; sellable up to and including this day
+  supplier: varchar("supplier", { length: 200 }),
+  quantityReceived: integer("quantity_received").notNull(),
+  quantityRemaining: integer("quantity_remaining").notNull(),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_product_batches_lot").on(table.productId, table.lotNumber),
+  index("IDX_product_batches_expiry").on(table.expiryDate),
+]);
+
+// Which batches an order item's units were taken from
+export const orderItemAllocations = pgTable("order_item_allocations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderItemId: uuid("order_item_id").references(() => orderItems.id).notNull(),
+  batchId: uuid("batch_id").references(() => productBatches.id).notNull(),
+  quantity: integer("quantity").notNull(),
+}, (table) => [index("IDX_order_item_allocations_item").on(table.orderItemId)]);
+
+// Stock ledger: products.stockQuantity is the sum of a product's movements
+export const inventoryMovements = pgTable("inventory_movements", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type", { length: 20 }).notNull(), // see INVENTORY_MOVEMENT_TYPES in inventory.ts
+  quantity: integer("quantity").notNull(), // signed change in stock
+  balanceAfter: integer("balance_after").notNull(),
+  reason: text("reason"),
+  actorId: varchar("actor_id").references(() => users.id),
+  orderId: uuid("order_id").references(() => orders.id),
+  batchId: uuid("batch_id").references(() => productBatches.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_inventory_movements_product").on(table.productId, table.createdAt)]);
+
+// Order events: one row per status or payment status change
+export const orderEvents = pgTable("order_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: uuid("order_id").references(() => orders.id).notNull(),
+  actorType: varchar("actor_type", { length: 20 }).notNull(), // 'customer', 'admin', 'system'
+  actorId: varchar("actor_id").references(() => users.id),
+  previousStatus: varchar("previous_status", { length: 30 }), // null for the event that created the order
+  newStatus: varchar("new_status", { length: 30 }).notNull(),
+  previousPaymentStatus: varchar("previous_payment_status", { length: 20 }),
+  newPaymentStatus: varchar("new_payment_status", { length: 20 }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_order_events_order").on(table.orderId, table.createdAt)]);
+
+// Admin audit log. Append-only: rows are never updated or deleted.
+export const auditLog = pgTable("audit_log", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => users.id),
+  action: varchar("action", { length: 100 }).notNull(), // e.g. 'product.update'
+  entityType: varchar("entity_type", { length: 50 }).notNull(),
+  entityId: varchar("entity_id"),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_log_created").on(table.createdAt),
+  index("IDX_audit_log_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_log_actor").on(table.actorId),
+]);
+
+// Feed of things admins should act on, e.g. low stock. A notification is
+// resolved once its condition clears, and read by whichever admin dismisses it.
+export const adminNotifications = pgTable("admin_notifications", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type", { length: 50 }).notNull(), // e.g. 'low_stock'
+  entityType: varchar("entity_type", { length: 50 }),
+  entityId: varchar("entity_id"),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  data: jsonb("data"),
+  resolvedAt: timestamp("resolved_at"),
+  readAt: timestamp("read_at"),
+  readBy: varchar("read_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_admin_notifications_created").on(table.createdAt),
+  // At most one open notification per subject, however many processes scan
+  uniqueIndex("UQ_admin_notifications_open")
+    .on(table.type, table.entityType, table.entityId)
+    .where(sql`${table.resolvedAt} is null`),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   cartItems: many(cartItems),
@@ -188,6 +324,46 @@ export const productsRelations = relations(products, ({ one, many }) => ({
   }),
   cartItems: many(cartItems),
   orderItems: many(orderItems),
+  inventoryMovements: many(inventoryMovements),
+  batches: many(productBatches),
+}));
+
+export const productBatchesRelations = relations(productBatches, ({ one, many }) => ({
+  product: one(products, {
+    fields: [productBatches.productId],
+    references: [products.id],
+  }),
+  allocations: many(orderItemAllocations),
+}));
+
+export const orderItemAllocationsRelations = relations(orderItemAllocations, ({ one }) => ({
+  orderItem: one(orderItems, {
+    fields: [orderItemAllocations.orderItemId],
+    references: [orderItems.id],
+  }),
+  batch: one(productBatches, {
+    fields: [orderItemAllocations.batchId],
+    references: [productBatches.id],
+  }),
+}));
+
+export const inventoryMovementsRelations = relations(inventoryMovements, ({ one }) => ({
+  product: one(products, {
+    fields: [inventoryMovements.productId],
+    references: [products.id],
+  }),
+  actor: one(users, {
+    fields: [inventoryMovements.actorId],
+    references: [users.id],
+  }),
+  order: one(orders, {
+    fields: [inventoryMovements.orderId],
+    references: [orders.id],
+  }),
+  batch: one(productBatches, {
+    fields: [inventoryMovements.batchId],
+    references: [productBatches.id],
+  }),
 }));
 
 export const cartItemsRelations = relations(cartItems, ({ one }) => ({
@@ -206,10 +382,26 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
     fields: [orders.userId],
     references: [users.id],
   }),
+  prescription: one(prescriptions, {
+    fields: [orders.prescriptionId],
+    references: [prescriptions.id],
+  }),
   orderItems: many(orderItems),
+  events: many(orderEvents),
 }));
 
-export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+export const orderEventsRelations = relations(orderEvents, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderEvents.orderId],
+    references: [orders.id],
+  }),
+  actor: one(users, {
+    fields: [orderEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one, many }) => ({
   order: one(orders, {
     fields: [orderItems.orderId],
     references: [orders.id],
@@ -218,6 +410,7 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
     fields: [orderItems.productId],
     references: [products.id],
   }),
+  allocations: many(orderItemAllocations),
 }));
 
 // Insert schemas
@@ -266,8 +459,14 @@ export const insertPrescriptionSchema = createInsertSchema(prescriptions).omit({
 });
 
 // Types
+export type Session = typeof sessions.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = typeof authTokens.$inferInsert;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = typeof loginAttempts.$inferInsert;
+export type LoginLockout = typeof loginLockouts.$inferSelect;
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Brand = typeof brands.$inferSelect;
@@ -280,6 +479,17 @@ export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type AdminNotification = typeof adminNotifications.$inferSelect;
+export type InsertAdminNotification = typeof adminNotifications.$inferInsert;
+export type ProductBatch = typeof productBatches.$inferSelect;
+export type InsertProductBatch = typeof productBatches.$inferInsert;
+export type OrderItemAllocation = typeof orderItemAllocations.$inferSelect;
+export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+export type InsertInventoryMovement = typeof inventoryMovements.$inferInsert;
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type InsertOrderEvent = typeof orderEvents.$inferInsert;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
 export type AdminPermission = typeof adminPermissions.$inferSelect;
 export type InsertAdminPermission = z.infer<typeof insertAdminPermissionSchema>;
 export type Prescription = typeof prescriptions.$inferSelect;
@@ -291,16 +501,70 @@ export type ProductWithRelations = Product & {
   brand?: Brand;
 };
 
+export type CategoryWithProductCount = Category & {
+  productCount: number;
+};
+
+export type BrandWithProductCount = Brand & {
+  productCount: number;
+};
+
 export type CartItemWithProduct = CartItem & {
   product: ProductWithRelations;
 };
 
+export type CartSummary = {
+  items: (CartItemWithProduct & { lineTotal: string })[];
+  itemCount: number;
+  subtotal: string;
+};
+
 export type OrderWithItems = Order & {
   orderItems: (OrderItem & {
     product: Product;
   })[];
 };
 
+export type OrderWithCustomer = OrderWithItems & {
+  customer: Pick<User, "id" | "username" | "email" | "firstName" | "lastName">;
+};
+
+export type ExpiringBatch = ProductBatch & {
+  product: Pick<Product, "id" | "name" | "slug">;
+};
+
+export type OrderItemAllocationWithBatch = OrderItemAllocation & {
+  batch: Pick<ProductBatch, "id" | "lotNumber" | "expiryDate" | "supplier">;
+};
+
+export type InventoryMovementWithActor = InventoryMovement & {
+  actor: Pick<User, "id" | "username" | "email" | "firstName" | "lastName"> | null;
+};
+
+export type OrderEventWithActor = OrderEvent & {
+  actor: Pick<User, "id" | "username" | "email" | "firstName" | "lastName"> | null;
+};
+
+// An order event with the actor and internal note removed, as shown to customers
+export type OrderTimelineEntry = {
+  status: string;
+  paymentStatus: string | null;
+  at: Date | null;
+};
+
+// Order as shown to the customer who placed it
+export type OrderDetail = Omit<OrderWithItems, "orderItems"> & {
+  orderItems: (OrderWithItems["orderItems"][number] & { lineTotal: string })[];
+  timeline: OrderTimelineEntry[];
+};
+
+// Field-level diff of an audited entity; fields absent before a create or after a delete are null
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditLogEntryWithActor = AuditLogEntry & {
+  actor: Pick<User, "id" | "username" | "email"> | null;
+};
+
 export type UserWithPermissions = User & {
   adminPermissions: AdminPermission[];
 };
@@ -309,3 +573,8 @@ export type PrescriptionWithUser = Prescription & {
   user: User;
   reviewer?: User | null;
 };
+
+// What a customer sees of their own prescription: the reviewer is reduced to a display name
+export type CustomerPrescription = Omit<Prescription, "reviewedBy"> & {
+  reviewerName: string | null;
+};
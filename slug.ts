@@ -0,0 +1,10 @@
+// URL slugs: lowercase ASCII words separated by single hyphens, e.g. "pain-relief"
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function slugify(value: string, maxLength = 100): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,187 @@
+import type { AdminNotification, Brand } from "@shared/schema";
+import { storage, type ProductStockLevel } from "./storage";
+
+// Sales velocity is the average units sold per day over this window
+export const SALES_WINDOW_DAYS = 30;
+
+// Days a delivery takes to arrive: a product selling fast enough to run out
+// sooner is flagged even above its reorder threshold
+const LEAD_TIME_DAYS = parseInt(process.env.REORDER_LEAD_TIME_DAYS || '7', 10);
+// Days of expected sales a suggested reorder should cover
+const COVER_DAYS = parseInt(process.env.REORDER_COVER_DAYS || '30', 10);
+
+const LOW_STOCK = "low_stock";
+
+export interface StockAssessment {
+  productId: string;
+  name: string;
+  slug: string;
+  stockQuantity: number;
+  reorderThreshold: number | null;
+  unitsSold: number;
+  dailySales: number;
+  // null when the product has not sold in the window
+  daysOfStockLeft: number | null;
+  low: boolean;
+  suggestedQuantity: number;
+}
+
+export interface ReorderSuggestionGroup {
+  // null for products without a brand
+  brand: Pick<Brand, "id" | "name"> | null;
+  totalQuantity: number;
+  items: StockAssessment[];
+}
+
+export interface StockScanResult {
+  scanned: number;
+  raised: number;
+  resolved: number;
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// A product is low once stock falls to its threshold (or to zero without one),
+// or when it would sell out before a new delivery could arrive. The suggestion
+// tops it back up to the threshold plus COVER_DAYS of sales, and orders at
+// least a threshold's worth for products that have not sold lately.
+export function assessStockLevel({ product, unitsSold }: ProductStockLevel): StockAssessment {
+  const stock = product.stockQuantity ?? 0;
+  const threshold = product.reorderThreshold ?? 0;
+  const dailySales = unitsSold / SALES_WINDOW_DAYS;
+  const daysOfStockLeft = dailySales > 0 ? stock / dailySales : null;
+  const low = stock <= threshold || (daysOfStockLeft !== null && daysOfStockLeft < LEAD_TIME_DAYS);
+  const target = threshold + Math.max(threshold, 1, Math.ceil(dailySales * COVER_DAYS));
+
+  return {
+    productId: product.id,
+    name: product.name,
+    slug: product.slug,
+    stockQuantity: stock,
+    reorderThreshold: product.reorderThreshold,
+    unitsSold,
+    dailySales: roundTo(dailySales, 2),
+    daysOfStockLeft: daysOfStockLeft === null ? null : roundTo(daysOfStockLeft, 1),
+    low,
+    suggestedQuantity: low ? Math.max(0, target - stock) : 0,
+  };
+}
+
+async function assessStockLevels(): Promise<{ level: ProductStockLevel; assessment: StockAssessment }[]> {
+  const salesSince = new Date(Date.now() - SALES_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const levels = await storage.getStockLevels(salesSince);
+  return levels.map((level) => ({ level, assessment: assessStockLevel(level) }));
+}
+
+// Low products grouped by brand, so each supplier gets one order
+export async function getReorderSuggestions(): Promise<ReorderSuggestionGroup[]> {
+  const groups = new Map<string | null, ReorderSuggestionGroup>();
+  for (const { level, assessment } of await assessStockLevels()) {
+    if (!assessment.low) {
+      continue;
+    }
+    const key = level.brand?.id ?? null;
+    let group = groups.get(key);
+    if (!group) {
+      group = { brand: level.brand, totalQuantity: 0, items: [] };
+      groups.set(key, group);
+    }
+    group.items.push(assessment);
+    group.totalQuantity += assessment.suggestedQuantity;
+  }
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (!a.brand || !b.brand) {
+      return a.brand ? -1 : b.brand ? 1 : 0;
+    }
+    return a.brand.name.localeCompare(b.brand.name);
+  });
+}
+
+function describeLowStock(assessment: StockAssessment): Pick<AdminNotification, "title" | "message"> {
+  const title = assessment.stockQuantity === 0
+    ? `${assessment.name} is out of stock`
+    : `${assessment.name} is running low`;
+  const details = [`${assessment.stockQuantity} in stock`];
+  if (assessment.reorderThreshold !== null) {
+    details.push(`reorder level ${assessment.reorderThreshold}`);
+  }
+  if (assessment.daysOfStockLeft !== null) {
+    details.push(`about ${Math.floor(assessment.daysOfStockLeft)} day(s) left at ${assessment.dailySales} sold per day`);
+  }
+  return { title, message: `${details.join(", ")}. Suggested reorder: ${assessment.suggestedQuantity}.` };
+}
+
+// Raises a notification for each product that has become low and resolves the
+// notifications of products that have recovered (or been deactivated). A
+// product has at most one unresolved low stock notification at a time.
+export async function scanStockLevels(): Promise<StockScanResult> {
+  const assessments = await assessStockLevels();
+  const unresolved = await storage.getUnresolvedAdminNotifications(LOW_STOCK);
+  const unresolvedByProduct = new Map(unresolved.map((notification) => [notification.entityId, notification]));
+
+  let raised = 0;
+  const lowProducts = new Set<string>();
+  for (const { assessment } of assessments) {
+    if (!assessment.low) {
+      continue;
+    }
+    lowProducts.add(assessment.productId);
+    if (unresolvedByProduct.has(assessment.productId)) {
+      continue;
+    }
+    // Another instance may have raised it since we looked
+    const created = await storage.createAdminNotification({
+      type: LOW_STOCK,
+      entityType: "product",
+      entityId: assessment.productId,
+      ...describeLowStock(assessment),
+      data: assessment,
+    });
+    if (created) {
+      raised++;
+    }
+  }
+
+  const recovered = unresolved.filter((notification) => !lowProducts.has(notification.entityId ?? ""));
+  await storage.resolveAdminNotifications(recovered.map((notification) => notification.id));
+
+  return { scanned: assessments.length, raised, resolved: recovered.length };
+}
+
+// Runs scanStockLevels now and then every STOCK_ALERT_INTERVAL_MINUTES
+// (default 60; 0 turns the scheduler off). Scans never overlap.
+export function startStockAlertScheduler(): NodeJS.Timeout | undefined {
+  const minutes = parseInt(process.env.STOCK_ALERT_INTERVAL_MINUTES || '60', 10);
+  if (!(minutes > 0)) {
+    console.log("STOCK_ALERT_INTERVAL_MINUTES is 0; scheduled stock alerts are disabled");
+    return undefined;
+  }
+
+  let running = false;
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await scanStockLevels();
+      if (result.raised > 0 || result.resolved > 0) {
+        console.log(`📦 Stock scan: ${result.raised} new low stock alert(s), ${result.resolved} resolved`);
+      }
+    } catch (error) {
+      console.error("Error scanning stock levels:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, minutes * 60 * 1000);
+  // Do not keep the process alive just for the scheduler
+  timer.unref();
+  void run();
+  return timer;
+}
@@ -1,5 +1,9 @@
 import {
+  sessions,
   users,
+  authTokens,
+  loginAttempts,
+  loginLockouts,
   products,
   categories,
   brands,
@@ -8,15 +12,29 @@ import {
   orderItems,
   adminPermissions,
   prescriptions,
+  orderEvents,
+  auditLog,
+  inventoryMovements,
+  productBatches,
+  orderItemAllocations,
+  adminNotifications,
   type User,
   type UpsertUser,
+  type Session,
+  type AuthToken,
+  type InsertAuthToken,
+  type LoginAttempt,
+  type InsertLoginAttempt,
+  type LoginLockout,
   type Product,
   type InsertProduct,
   type ProductWithRelations,
   type Category,
   type InsertCategory,
+  type CategoryWithProductCount,
   type Brand,
   type InsertBrand,
+  type BrandWithProductCount,
   type CartItem,
   type InsertCartItem,
   type CartItemWithProduct,
@@ -25,6 +43,19 @@ import {
   type OrderItem,
   type InsertOrderItem,
   type OrderWithItems,
+  type OrderWithCustomer,
+  type OrderEvent,
+  type OrderEventWithActor,
+  type InventoryMovement,
+  type InventoryMovementWithActor,
+  type ProductBatch,
+  type AdminNotification,
+  type InsertAdminNotification,
+  type ExpiringBatch,
+  type OrderItemAllocationWithBatch,
+  type AuditLogEntry,
+  type InsertAuditLogEntry,
+  type AuditLogEntryWithActor,
   type AdminPermission,
   type InsertAdminPermission,
   type UserWithPermissions,
@@ -33,7 +64,662 @@ import {
   type PrescriptionWithUser,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, like, ilike, sql } from "drizzle-orm";
+import { eq, ne, and, or, asc, desc, gt, gte, lt, lte, like, ilike, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { toMinorUnits, formatMinorUnits } from "./money";
+import { slugify } from "./slug";
+import { findPrescriptionProblems } from "./prescriptionPolicy";
+import {
+  canTransitionOrder,
+  getAllowedOrderTransitions,
+  releasesStock,
+  SYSTEM_ACTOR,
+  type OrderEventActor,
+  type OrderStatus,
+  type PaymentStatus,
+} from "./orderStatus";
+import { resolvePermissions, type AdminRole, type Permission } from "./permissions";
+import { isValidMovementQuantity, type InventoryMovementType } from "./inventory";
+import type { AuthTokenPurpose } from "./accountTokens";
+import type { LoginLockoutScope } from "./loginThrottle";
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class CartEmptyError extends Error {
+  constructor() {
+    super("Cart is empty");
+    this.name = "CartEmptyError";
+    Object.setPrototypeOf(this, CartEmptyError.prototype);
+  }
+}
+
+export class ProductUnavailableError extends Error {
+  constructor(public readonly productId: string, public readonly productName: string) {
+    super(`Product '${productName}' is no longer available`);
+    this.name = "ProductUnavailableError";
+    Object.setPrototypeOf(this, ProductUnavailableError.prototype);
+  }
+}
+
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly productId: string,
+    public readonly productName: string,
+    public readonly requested: number,
+    public readonly available: number,
+  ) {
+    super(`Only ${available} of '${productName}' in stock, ${requested} requested`);
+    this.name = "InsufficientStockError";
+    Object.setPrototypeOf(this, InsufficientStockError.prototype);
+  }
+}
+
+export class ProductNotFoundError extends Error {
+  constructor() {
+    super("Product not found");
+    this.name = "ProductNotFoundError";
+    Object.setPrototypeOf(this, ProductNotFoundError.prototype);
+  }
+}
+
+export class InvalidInventoryMovementError extends Error {
+  constructor(public readonly type: InventoryMovementType, public readonly quantity: number) {
+    super(`Quantity ${quantity} is not valid for a '${type}' movement`);
+    this.name = "InvalidInventoryMovementError";
+    Object.setPrototypeOf(this, InvalidInventoryMovementError.prototype);
+  }
+}
+
+export class BatchNotFoundError extends Error {
+  constructor() {
+    super("Batch not found");
+    this.name = "BatchNotFoundError";
+    Object.setPrototypeOf(this, BatchNotFoundError.prototype);
+  }
+}
+
+export class DuplicateBatchError extends Error {
+  constructor(public readonly lotNumber: string) {
+    super(`Lot '${lotNumber}' has already been received for this product`);
+    this.name = "DuplicateBatchError";
+    Object.setPrototypeOf(this, DuplicateBatchError.prototype);
+  }
+}
+
+export const PRODUCT_SORTS = ["newest", "price_asc", "price_desc", "rating", "name"] as const;
+export type ProductSort = typeof PRODUCT_SORTS[number];
+
+export interface ProductFilters {
+  categoryId?: string;
+  categorySlug?: string;
+  brandId?: string;
+  search?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  requiresPrescription?: boolean;
+  sort?: ProductSort;
+  limit?: number;
+  offset?: number;
+}
+
+// Builds the WHERE conditions shared by product listing and counting.
+// Expects the query to join categories and brands.
+function productFilterConditions(filters: ProductFilters = {}): SQL[] {
+  const conditions: SQL[] = [eq(products.isActive, true)];
+
+  if (filters.categoryId) {
+    conditions.push(eq(products.categoryId, filters.categoryId));
+  }
+  if (filters.categorySlug) {
+    conditions.push(eq(categories.slug, filters.categorySlug));
+  }
+  if (filters.brandId) {
+    conditions.push(eq(products.brandId, filters.brandId));
+  }
+  if (filters.search) {
+    const pattern = `%${filters.search.replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push(or(
+      ilike(products.name, pattern),
+      ilike(products.description, pattern),
+      ilike(products.shortDescription, pattern),
+      ilike(brands.name, pattern),
+    )!);
+  }
+  if (filters.minPrice !== undefined) {
+    conditions.push(gte(products.price, filters.minPrice.toString()));
+  }
+  if (filters.maxPrice !== undefined) {
+    conditions.push(lte(products.price, filters.maxPrice.toString()));
+  }
+  if (filters.inStock !== undefined) {
+    conditions.push(filters.inStock
+      ? gt(products.stockQuantity, 0)
+      : lte(products.stockQuantity, 0));
+  }
+  if (filters.requiresPrescription !== undefined) {
+    conditions.push(eq(products.requiresPrescription, filters.requiresPrescription));
+  }
+
+  return conditions;
+}
+
+function productSortOrder(sort: ProductSort = "newest"): SQL[] {
+  switch (sort) {
+    case "price_asc":
+      return [asc(products.price), asc(products.name)];
+    case "price_desc":
+      return [desc(products.price), asc(products.name)];
+    case "rating":
+      return [sql`${products.rating} desc nulls last`, desc(products.reviewCount), asc(products.name)];
+    case "name":
+      return [asc(products.name)];
+    case "newest":
+    default:
+      return [desc(products.createdAt), asc(products.name)];
+  }
+}
+
+// Price buckets (in GHS) used for search facets. The last bucket is open-ended.
+export const PRICE_BUCKETS = [
+  { key: "0-50", min: 0, max: 50 },
+  { key: "50-100", min: 50, max: 100 },
+  { key: "100-200", min: 100, max: 200 },
+  { key: "200-500", min: 200, max: 500 },
+  { key: "500+", min: 500, max: null },
+] as const;
+
+// Minimum pg_trgm word similarity for a misspelled name to count as a match
+const TRIGRAM_MATCH_THRESHOLD = 0.4;
+
+export interface ProductSearchFacets {
+  categories: { id: string; name: string; slug: string; count: number }[];
+  brands: { id: string; name: string; count: number }[];
+  priceRanges: { key: string; min: number; max: number | null; count: number }[];
+  requiresPrescription: { value: boolean; count: number }[];
+}
+
+export interface ProductSearchResult {
+  products: (ProductWithRelations & { rank: number })[];
+  total: number;
+  facets: ProductSearchFacets;
+}
+
+export class EntityInUseError extends Error {
+  constructor(public readonly entity: string, public readonly productCount: number) {
+    super(`${entity} is still used by ${productCount} product(s)`);
+    this.name = "EntityInUseError";
+    Object.setPrototypeOf(this, EntityInUseError.prototype);
+  }
+}
+
+export class PrescriptionNotFoundError extends Error {
+  constructor() {
+    super("Prescription not found");
+    this.name = "PrescriptionNotFoundError";
+    Object.setPrototypeOf(this, PrescriptionNotFoundError.prototype);
+  }
+}
+
+export class OrderNotFoundError extends Error {
+  constructor() {
+    super("Order not found");
+    this.name = "OrderNotFoundError";
+    Object.setPrototypeOf(this, OrderNotFoundError.prototype);
+  }
+}
+
+export class InvalidOrderTransitionError extends Error {
+  constructor(public readonly from: string, public readonly to: string) {
+    super(`Cannot move order from '${from}' to '${to}'`);
+    this.name = "InvalidOrderTransitionError";
+    Object.setPrototypeOf(this, InvalidOrderTransitionError.prototype);
+  }
+
+  get allowed(): readonly OrderStatus[] {
+    return getAllowedOrderTransitions(this.from);
+  }
+}
+
+export interface OrderStatusChange {
+  status?: OrderStatus;
+  paymentStatus?: PaymentStatus;
+  // Recorded on the order event; defaults to the system actor
+  actor?: OrderEventActor;
+  note?: string;
+}
+
+export interface OrderFilters {
+  userId?: string;
+  status?: string;
+  from?: Date;
+  to?: Date;
+  // Exclusive upper bound, e.g. the start of the day after a date-only `to`
+  before?: Date;
+  // Matches order number or customer email
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Expects the query to join users.
+function orderFilterConditions(filters: OrderFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.userId) {
+    conditions.push(eq(orders.userId, filters.userId));
+  }
+  if (filters.search) {
+    const pattern = `%${filters.search.replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push(or(ilike(orders.orderNumber, pattern), ilike(users.email, pattern))!);
+  }
+  if (filters.status) {
+    conditions.push(eq(orders.status, filters.status));
+  }
+  if (filters.from) {
+    conditions.push(gte(orders.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(orders.createdAt, filters.to));
+  }
+  if (filters.before) {
+    conditions.push(lt(orders.createdAt, filters.before));
+  }
+  return conditions;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  before?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+function auditLogFilterConditions(filters: AuditLogFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.actorId) {
+    conditions.push(eq(auditLog.actorId, filters.actorId));
+  }
+  if (filters.action) {
+    conditions.push(eq(auditLog.action, filters.action));
+  }
+  if (filters.entityType) {
+    conditions.push(eq(auditLog.entityType, filters.entityType));
+  }
+  if (filters.entityId) {
+    conditions.push(eq(auditLog.entityId, filters.entityId));
+  }
+  if (filters.from) {
+    conditions.push(gte(auditLog.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lte(auditLog.createdAt, filters.to));
+  }
+  if (filters.before) {
+    conditions.push(lt(auditLog.createdAt, filters.before));
+  }
+  return conditions;
+}
+
+// A product row from a catalogue import. Brands and categories are matched by
+// name (case-insensitive; categories also by slug) and created when missing.
+export interface CatalogProductImport {
+  slug: string;
+  name: string;
+  price: string;
+  imageUrl: string | null;
+  brandName: string | null;
+  categoryName: string | null;
+}
+
+export interface CatalogImportResult {
+  created: number;
+  updated: number;
+  brandsCreated: number;
+  categoriesCreated: number;
+  // Slug to id of each product created or updated
+  productIds: Record<string, string>;
+}
+
+// Row counts reported by the seeding CLI's status command
+export interface DatabaseSummary {
+  users: number;
+  categories: number;
+  brands: number;
+  products: number;
+  activeProducts: number;
+  unitsInStock: number;
+  orders: number;
+  prescriptions: number;
+}
+
+// An active product with its brand and the units sold since a given date
+export interface ProductStockLevel {
+  product: Product;
+  brand: Pick<Brand, "id" | "name"> | null;
+  unitsSold: number;
+}
+
+export interface AdminNotificationFilters {
+  type?: string;
+  unread?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+function adminNotificationConditions(filters: AdminNotificationFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.type) {
+    conditions.push(eq(adminNotifications.type, filters.type));
+  }
+  if (filters.unread) {
+    conditions.push(isNull(adminNotifications.readAt));
+  }
+  return conditions;
+}
+
+export interface LoginThrottleKey {
+  scope: LoginLockoutScope;
+  key: string;
+}
+
+export interface LoginAttemptReservation {
+  // Set when a key is locked out, in which case nothing was reserved
+  lockedUntil: Date | null;
+  // The counters as left by the reservation, for releaseLoginAttempt
+  counters: LoginLockout[];
+}
+
+export interface LoginAttemptFilters {
+  // Lowercased, as recorded
+  username?: string;
+  ipAddress?: string;
+  succeeded?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ProfileUpdate {
+  firstName?: string | null;
+  lastName?: string | null;
+  email?: string;
+}
+
+export class EmailInUseError extends Error {
+  constructor() {
+    super("Email already exists");
+    this.name = "EmailInUseError";
+    Object.setPrototypeOf(this, EmailInUseError.prototype);
+  }
+}
+
+export interface CheckoutDetails {
+  shippingAddress?: unknown;
+  billingAddress?: unknown;
+  prescriptionId?: string;
+}
+
+export interface CheckoutResult {
+  order: OrderWithItems;
+  // Why the order is held in 'awaiting_prescription'; empty when it can be paid
+  prescriptionProblems: string[];
+}
+
+export interface InventoryMovementInput {
+  productId: string;
+  type: InventoryMovementType;
+  // Signed change in stock: negative for sales and write-offs
+  quantity: number;
+  reason?: string | null;
+  actorId?: string | null;
+  orderId?: string | null;
+  // Also changes this batch's remaining quantity
+  batchId?: string | null;
+}
+
+export interface BatchReceipt {
+  productId: string;
+  lotNumber: string;
+  expiryDate: string; // YYYY-MM-DD
+  supplier?: string | null;
+  quantity: number;
+  reason?: string | null;
+  actorId?: string | null;
+}
+
+// Stock is left out: it only changes through inventory movements
+export type ProductUpdate = Partial<Omit<InsertProduct, "stockQuantity">>;
+
+export interface InventoryMovementFilters {
+  limit?: number;
+  offset?: number;
+}
+
+// Units of the product in the surrounding query held in batches; the rest of
+// its stock is in no batch
+const batchedStock = sql`(select coalesce(sum(${productBatches.quantityRemaining}), 0) from ${productBatches} where ${productBatches.productId} = ${products.id})`;
+
+// Changes a product's stock and records the movement. The guarded UPDATEs keep
+// stock (and the batch, if given) from going negative when movements race; the
+// loser gets an InsufficientStockError and its transaction rolls back. Stock
+// taken without naming a batch may only come from stock that is in no batch.
+async function applyInventoryMovement(tx: DbTransaction, movement: InventoryMovementInput): Promise<InventoryMovement> {
+  if (!isValidMovementQuantity(movement.type, movement.quantity)) {
+    throw new InvalidInventoryMovementError(movement.type, movement.quantity);
+  }
+
+  if (movement.batchId) {
+    const remaining = sql`${productBatches.quantityRemaining} + ${movement.quantity}`;
+    const [batch] = await tx
+      .update(productBatches)
+      .set({ quantityRemaining: remaining })
+      .where(and(
+        eq(productBatches.id, movement.batchId),
+        eq(productBatches.productId, movement.productId),
+        sql`${remaining} >= 0`,
+      ))
+      .returning();
+
+    if (!batch) {
+      const [current] = await tx
+        .select({ batch: productBatches, product: products })
+        .from(productBatches)
+        .innerJoin(products, eq(productBatches.productId, products.id))
+        .where(and(eq(productBatches.id, movement.batchId), eq(productBatches.productId, movement.productId)));
+      if (!current) {
+        throw new BatchNotFoundError();
+      }
+      throw new InsufficientStockError(current.product.id, current.product.name, -movement.quantity, current.batch.quantityRemaining);
+    }
+  }
+
+  const balance = sql`coalesce(${products.stockQuantity}, 0) + ${movement.quantity}`;
+  const [product] = await tx
+    .update(products)
+    .set({ stockQuantity: balance, updatedAt: new Date() })
+    .where(and(
+      eq(products.id, movement.productId),
+      movement.batchId || movement.quantity > 0
+        ? sql`${balance} >= 0`
+        : sql`${balance} >= ${batchedStock}`,
+    ))
+    .returning();
+
+  if (!product) {
+    const [current] = await tx
+      .select({ product: products, batchedStock: sql<number>`${batchedStock}::int` })
+      .from(products)
+      .where(eq(products.id, movement.productId));
+    if (!current) {
+      throw new ProductNotFoundError();
+    }
+    const available = (current.product.stockQuantity ?? 0) - (movement.batchId ? 0 : current.batchedStock);
+    throw new InsufficientStockError(current.product.id, current.product.name, -movement.quantity, Math.max(0, available));
+  }
+
+  const [recorded] = await tx
+    .insert(inventoryMovements)
+    .values({
+      productId: movement.productId,
+      type: movement.type,
+      quantity: movement.quantity,
+      balanceAfter: product.stockQuantity ?? 0,
+      reason: movement.reason ?? null,
+      actorId: movement.actorId ?? null,
+      orderId: movement.orderId ?? null,
+      batchId: movement.batchId ?? null,
+    })
+    .returning();
+  return recorded;
+}
+
+interface BatchAllocation {
+  batchId: string;
+  quantity: number;
+}
+
+// Takes an order line's units from the product's unexpired batches, earliest
+// expiry first (FEFO), then from stock in no batch. Expired batches are never
+// sold. Expects the product's stock to have been decremented already, which
+// also locks the product row against concurrent checkouts.
+async function allocateFromBatches(tx: DbTransaction, product: Product, quantity: number): Promise<BatchAllocation[]> {
+  const batches = await tx
+    .select({ batch: productBatches, expired: sql<boolean>`${productBatches.expiryDate} < current_date` })
+    .from(productBatches)
+    .where(and(eq(productBatches.productId, product.id), gt(productBatches.quantityRemaining, 0)))
+    .orderBy(asc(productBatches.expiryDate), asc(productBatches.receivedAt))
+    .for("update");
+
+  const inBatches = batches.reduce((sum, { batch }) => sum + batch.quantityRemaining, 0);
+  // Measured before this order's units were taken
+  const unbatchedStock = Math.max(0, (product.stockQuantity ?? 0) + quantity - inBatches);
+  const usable = batches.filter(({ expired }) => !expired).map(({ batch }) => batch);
+  const sellable = unbatchedStock + usable.reduce((sum, batch) => sum + batch.quantityRemaining, 0);
+  if (sellable < quantity) {
+    throw new InsufficientStockError(product.id, product.name, quantity, sellable);
+  }
+
+  const allocations: BatchAllocation[] = [];
+  let needed = quantity;
+  for (const batch of usable) {
+    if (needed === 0) {
+      break;
+    }
+    const taken = Math.min(needed, batch.quantityRemaining);
+    await tx
+      .update(productBatches)
+      .set({ quantityRemaining: sql`${productBatches.quantityRemaining} - ${taken}` })
+      .where(eq(productBatches.id, batch.id));
+    allocations.push({ batchId: batch.id, quantity: taken });
+    needed -= taken;
+  }
+  return allocations;
+}
+
+// Moves an order's units off any batch that has expired since they were
+// allocated (e.g. while the order waited for a prescription) onto sellable
+// stock, FEFO again. The expired units go back to their batch; stock totals
+// are unchanged. Throws InsufficientStockError if there is nothing left to
+// swap in.
+async function reallocateExpiredUnits(tx: DbTransaction, orderId: string): Promise<void> {
+  const stale = await tx
+    .select({ allocation: orderItemAllocations, productId: orderItems.productId })
+    .from(orderItemAllocations)
+    .innerJoin(orderItems, eq(orderItemAllocations.orderItemId, orderItems.id))
+    .innerJoin(productBatches, eq(orderItemAllocations.batchId, productBatches.id))
+    .where(and(eq(orderItems.orderId, orderId), sql`${productBatches.expiryDate} < current_date`))
+    .orderBy(asc(orderItems.productId));
+
+  for (const { allocation, productId } of stale) {
+    // Product row first, as checkout does, then its batches
+    const [product] = await tx.select().from(products).where(eq(products.id, productId)).for("update");
+    await tx
+      .update(productBatches)
+      .set({ quantityRemaining: sql`${productBatches.quantityRemaining} + ${allocation.quantity}` })
+      .where(eq(productBatches.id, allocation.batchId));
+    await tx.delete(orderItemAllocations).where(eq(orderItemAllocations.id, allocation.id));
+
+    const replacements = await allocateFromBatches(tx, product, allocation.quantity);
+    if (replacements.length > 0) {
+      await tx.insert(orderItemAllocations).values(
+        replacements.map((replacement) => ({ orderItemId: allocation.orderItemId, ...replacement })));
+    }
+  }
+}
+
+// Puts the quantities of an order's items back into product stock, and into
+// the batches they were taken from
+async function restockOrderItems(tx: DbTransaction, orderId: string, actor: OrderEventActor): Promise<void> {
+  const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  if (items.length === 0) {
+    return;
+  }
+
+  const allocations = await tx
+    .select()
+    .from(orderItemAllocations)
+    .where(inArray(orderItemAllocations.orderItemId, items.map((item) => item.id)));
+  for (const allocation of allocations) {
+    await tx
+      .update(productBatches)
+      .set({ quantityRemaining: sql`${productBatches.quantityRemaining} + ${allocation.quantity}` })
+      .where(eq(productBatches.id, allocation.batchId));
+  }
+
+  for (const item of items) {
+    await applyInventoryMovement(tx, {
+      productId: item.productId,
+      type: "return",
+      quantity: item.quantity,
+      reason: "Order cancelled",
+      actorId: actor.id ?? null,
+      orderId,
+    });
+  }
+}
+
+// Marks a valid token as used and returns it; undefined if it is unknown,
+// expired, already used or for another purpose.
+async function consumeAuthToken(tx: DbTransaction, purpose: AuthTokenPurpose, tokenHash: string): Promise<AuthToken | undefined> {
+  const [token] = await tx
+    .update(authTokens)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(authTokens.tokenHash, tokenHash),
+      eq(authTokens.purpose, purpose),
+      isNull(authTokens.usedAt),
+      gt(authTokens.expiresAt, new Date()),
+    ))
+    .returning();
+  return token;
+}
+
+// Matches the user's sessions, whichever way they logged in
+function userSessionCondition(userId: string): SQL {
+  return or(
+    sql`${sessions.sess}->>'userId' = ${userId}`,
+    sql`${sessions.sess}->'passport'->'user'->'claims'->>'sub' = ${userId}`,
+  )!;
+}
+
+// Logs the user out everywhere, except optionally the session making the request
+async function deleteUserSessions(tx: DbTransaction, userId: string, exceptSessionId?: string): Promise<void> {
+  await tx.delete(sessions).where(and(
+    userSessionCondition(userId),
+    exceptSessionId ? ne(sessions.sid, exceptSessionId) : undefined,
+  ));
+}
+
+// Human-readable order number, e.g. PC-20250829-3F9A1C
+function generateOrderNumber(): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  const suffix = randomBytes(3).toString("hex").toUpperCase();
+  return `PC-${date}-${suffix}`;
+}
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -44,67 +730,140 @@ export interface IStorage {
   getUserWithPermissions(id: string): Promise<UserWithPermissions | undefined>;
   createUser(user: Partial<User>): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
-  updateUserStripeInfo(id: string, stripeCustomerId: string, stripeSubscriptionId: string): Promise<User>;
-  hasAdminPermission(userId: string, permission: string): Promise<boolean>;
+  updateUserStripeInfo(id: string, stripeCustomerId: string, stripeSubscriptionId: string | null): Promise<User>;
+  hasAdminPermission(userId: string, permission: Permission): Promise<boolean>;
+
+  // Account self-service operations
+  updateUserProfile(id: string, updates: ProfileUpdate): Promise<User | undefined>;
+  updateUserPassword(id: string, passwordHash: string, keepSessionId?: string): Promise<void>;
+  setUserProfileImage(id: string, profileImageUrl: string): Promise<User | undefined>;
+  getUserSessions(userId: string): Promise<Session[]>;
+  deleteUserSession(userId: string, sessionId: string): Promise<boolean>;
+  anonymizeUser(id: string): Promise<void>;
+
+  // Account token operations
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<User | undefined>;
+  verifyEmailWithToken(tokenHash: string): Promise<User | undefined>;
+
+  // Login throttling operations
+  createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  getLoginAttempts(filters?: LoginAttemptFilters): Promise<LoginAttempt[]>;
+  reserveLoginAttempt(
+    keys: LoginThrottleKey[],
+    now: Date,
+    windowMs: number,
+    lockoutMs: (scope: LoginLockoutScope, failureCount: number) => number,
+  ): Promise<LoginAttemptReservation>;
+  releaseLoginAttempt(counters: LoginLockout[]): Promise<void>;
+  getLoginLockouts(activeOnly: boolean): Promise<LoginLockout[]>;
+  getLoginLockout(id: string): Promise<LoginLockout | undefined>;
+  deleteLoginLockout(id: string): Promise<boolean>;
 
   // Category operations
   getCategories(): Promise<Category[]>;
+  getCategoriesWithProductCounts(): Promise<CategoryWithProductCount[]>;
+  getCategoryBySlug(slug: string): Promise<Category | undefined>;
+  getCategory(id: string): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: string, updates: Partial<InsertCategory>): Promise<Category | undefined>;
+  deleteCategory(id: string, reassignTo?: string): Promise<number>;
   deleteAllCategories(): Promise<void>;
 
   // Brand operations
   getBrands(): Promise<Brand[]>;
+  getBrandsWithProductCounts(): Promise<BrandWithProductCount[]>;
+  getBrand(id: string): Promise<Brand | undefined>;
   getBrandByName(name: string): Promise<Brand | undefined>;
   createBrand(brand: InsertBrand): Promise<Brand>;
+  updateBrand(id: string, updates: Partial<InsertBrand>): Promise<Brand | undefined>;
+  deleteBrand(id: string, reassignTo?: string): Promise<number>;
   deleteAllBrands(): Promise<void>;
 
   // Product operations
-  getProducts(filters?: {
-    categoryId?: string;
-    brandId?: string;
-    search?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    inStock?: boolean;
-    limit?: number;
-    offset?: number;
-  }): Promise<ProductWithRelations[]>;
+  getProducts(filters?: ProductFilters): Promise<ProductWithRelations[]>;
+  getProductCount(filters?: ProductFilters): Promise<number>;
+  searchProducts(query: string, filters?: ProductFilters): Promise<ProductSearchResult>;
   getProduct(id: string): Promise<ProductWithRelations | undefined>;
   getProductBySlug(slug: string): Promise<ProductWithRelations | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
-  updateProductStock(id: string, quantity: number): Promise<Product>;
+  createProduct(product: InsertProduct, actorId?: string): Promise<Product>;
   deleteAllProducts(): Promise<void>;
   clearAllData(): Promise<void>;
+  upsertCategory(category: InsertCategory): Promise<Category>;
+  upsertBrand(brand: InsertBrand): Promise<Brand>;
+  upsertProductBySlug(product: InsertProduct): Promise<{ product: Product; created: boolean }>;
+  getDatabaseSummary(): Promise<DatabaseSummary>;
 
   // Cart operations
   getCartItems(userId: string): Promise<CartItemWithProduct[]>;
+  getCartItem(userId: string, productId: string): Promise<CartItem | undefined>;
   addToCart(userId: string, productId: string, quantity: number): Promise<CartItem>;
   updateCartItem(userId: string, productId: string, quantity: number): Promise<CartItem>;
   removeFromCart(userId: string, productId: string): Promise<void>;
   clearCart(userId: string): Promise<void>;
 
   // Order operations
-  getOrders(userId: string): Promise<OrderWithItems[]>;
+  getOrders(userId: string, filters?: OrderFilters): Promise<OrderWithItems[]>;
+  getOrderCount(userId: string, filters?: OrderFilters): Promise<number>;
+  findOrders(filters?: OrderFilters): Promise<OrderWithCustomer[]>;
+  countOrders(filters?: OrderFilters): Promise<number>;
   getOrder(id: string): Promise<OrderWithItems | undefined>;
   createOrder(order: InsertOrder, items: InsertOrderItem[]): Promise<OrderWithItems>;
+  checkoutCart(userId: string, details: CheckoutDetails): Promise<CheckoutResult>;
+  releasePrescriptionHold(id: string, prescriptionId: string, actor: OrderEventActor): Promise<Order | undefined>;
+  getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined>;
+  setOrderPaymentIntent(id: string, paymentIntentId: string): Promise<Order>;
+  getOrderEvents(orderId: string): Promise<OrderEventWithActor[]>;
+  getOrderEventsForOrders(orderIds: string[]): Promise<OrderEvent[]>;
   
   // Admin operations
   getUserWithPermissions(id: string): Promise<UserWithPermissions | undefined>;
-  setUserAdmin(id: string, isAdmin: boolean, role?: string): Promise<User>;
-  addAdminPermission(userId: string, permission: string): Promise<AdminPermission>;
-  removeAdminPermission(userId: string, permission: string): Promise<void>;
-  hasAdminPermission(userId: string, permission: string): Promise<boolean>;
+  setUserAdmin(id: string, isAdmin: boolean, role?: AdminRole | null): Promise<User | undefined>;
+  addAdminPermission(userId: string, permission: Permission): Promise<AdminPermission>;
+  removeAdminPermission(userId: string, permission: string): Promise<boolean>;
   
   // Product management operations
-  updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product>;
+  updateProduct(id: string, updates: ProductUpdate): Promise<Product>;
   deleteProduct(id: string): Promise<void>;
+
+  // Inventory operations (stock only changes through movements)
+  recordInventoryMovement(movement: InventoryMovementInput): Promise<InventoryMovement>;
+  getInventoryMovements(productId: string, filters?: InventoryMovementFilters): Promise<InventoryMovementWithActor[]>;
+  countInventoryMovements(productId: string): Promise<number>;
+  backfillOpeningStockBalances(): Promise<number>;
+  receiveBatch(receipt: BatchReceipt): Promise<{ batch: ProductBatch; movement: InventoryMovement }>;
+  getProductBatches(productId: string): Promise<ProductBatch[]>;
+  getExpiringBatches(withinDays: number): Promise<ExpiringBatch[]>;
+  getOrderAllocations(orderId: string): Promise<OrderItemAllocationWithBatch[]>;
+  getStockLevels(salesSince: Date): Promise<ProductStockLevel[]>;
+
+  // Catalogue import/export
+  getCatalogProducts(slugs?: string[]): Promise<ProductWithRelations[]>;
+  applyCatalogImport(entries: CatalogProductImport[]): Promise<CatalogImportResult>;
+
+  // Admin notification operations
+  createAdminNotification(notification: InsertAdminNotification): Promise<AdminNotification | undefined>;
+  getUnresolvedAdminNotifications(type: string): Promise<AdminNotification[]>;
+  resolveAdminNotifications(ids: string[]): Promise<void>;
+  getAdminNotifications(filters?: AdminNotificationFilters): Promise<AdminNotification[]>;
+  countAdminNotifications(filters?: AdminNotificationFilters): Promise<number>;
+  markAdminNotificationRead(id: string, userId: string): Promise<AdminNotification | undefined>;
+  markAllAdminNotificationsRead(userId: string): Promise<number>;
   
   // Prescription operations
   createPrescription(prescription: InsertPrescription): Promise<Prescription>;
   getPrescriptions(userId?: string): Promise<PrescriptionWithUser[]>;
   getPrescription(id: string): Promise<PrescriptionWithUser | undefined>;
-  updatePrescriptionStatus(id: string, status: string, reviewNotes?: string, reviewedBy?: string): Promise<Prescription>;
-  updateOrderStatus(id: string, status: string, paymentStatus?: string): Promise<Order>;
+  updatePrescriptionStatus(id: string, status: string, reviewNotes?: string, reviewedBy?: string, expiresAt?: Date): Promise<Prescription | undefined>;
+  withdrawPrescription(id: string, userId: string): Promise<Prescription | undefined>;
+  resubmitPrescription(id: string, userId: string, updates: { imageUrls: string[]; medications?: string }): Promise<Prescription | undefined>;
+  updateOrderStatus(id: string, changes: OrderStatusChange): Promise<Order>;
+
+  // Audit log operations (append-only: there is deliberately no update or delete)
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  createAuditLogEntries(entries: InsertAuditLogEntry[]): Promise<void>;
+  getAuditLog(filters?: AuditLogFilters): Promise<AuditLogEntryWithActor[]>;
+  countAuditLog(filters?: AuditLogFilters): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -164,7 +923,317 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async updateUserStripeInfo(id: string, stripeCustomerId: string, stripeSubscriptionId: string): Promise<User> {
+  // Changing the email address marks it unverified again.
+  // Throws EmailInUseError if another account uses the new address.
+  async updateUserProfile(id: string, updates: ProfileUpdate): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      if (!current) {
+        return undefined;
+      }
+
+      const { email, ...details } = updates;
+      const emailChanged = email !== undefined && email !== current.email;
+      if (emailChanged) {
+        const [other] = await tx
+          .select({ id: users.id })
+          .from(users)
+          .where(and(eq(users.email, email), ne(users.id, id)));
+        if (other) {
+          throw new EmailInUseError();
+        }
+      }
+
+      // A new address is only requested here; verifyEmailWithToken moves it
+      // into email once its owner proves they control it
+      const [user] = await tx
+        .update(users)
+        .set({
+          ...details,
+          ...(email !== undefined && { pendingEmail: emailChanged ? email : null }),
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, id))
+        .returning();
+      return user;
+    });
+  }
+
+  // Ends the user's other sessions so a stolen session cannot outlive the change
+  async updateUserPassword(id: string, passwordHash: string, keepSessionId?: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ password: passwordHash, updatedAt: new Date() })
+        .where(eq(users.id, id));
+      await deleteUserSessions(tx, id, keepSessionId);
+    });
+  }
+
+  async setUserProfileImage(id: string, profileImageUrl: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ profileImageUrl, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(userSessionCondition(userId), gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteUserSession(userId: string, sessionId: string): Promise<boolean> {
+    const removed = await db
+      .delete(sessions)
+      .where(and(eq(sessions.sid, sessionId), userSessionCondition(userId)))
+      .returning({ sid: sessions.sid });
+    return removed.length > 0;
+  }
+
+  // Erases the user's personal details and logs them out everywhere. Orders and
+  // prescriptions keep pointing at the anonymized user because the pharmacy must
+  // retain them.
+  async anonymizeUser(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({
+          username: null,
+          password: null,
+          email: null,
+          emailVerifiedAt: null,
+          pendingEmail: null,
+          firstName: null,
+          lastName: null,
+          profileImageUrl: null,
+          isAdmin: false,
+          adminRole: null,
+          deletedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, id));
+      await tx.delete(adminPermissions).where(eq(adminPermissions.userId, id));
+      await tx.delete(cartItems).where(eq(cartItems.userId, id));
+      await tx.delete(authTokens).where(eq(authTokens.userId, id));
+      await deleteUserSessions(tx, id);
+    });
+  }
+
+  // Earlier unused tokens for the same purpose stop working
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(authTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(authTokens.userId, token.userId),
+          eq(authTokens.purpose, token.purpose),
+          isNull(authTokens.usedAt),
+        ));
+      const [created] = await tx.insert(authTokens).values(token).returning();
+      return created;
+    });
+  }
+
+  // Sets a new password and ends all of the user's sessions.
+  // Returns undefined if the token is not valid.
+  async resetPasswordWithToken(tokenHash: string, passwordHash: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const token = await consumeAuthToken(tx, "password_reset", tokenHash);
+      if (!token) {
+        return undefined;
+      }
+
+      const [user] = await tx
+        .update(users)
+        .set({ password: passwordHash, updatedAt: new Date() })
+        .where(eq(users.id, token.userId))
+        .returning();
+      await deleteUserSessions(tx, token.userId);
+      return user;
+    });
+  }
+
+  // Verifies the user's address, or switches to the pending address the token
+  // was sent to. Returns undefined if the token is not valid or was sent to an
+  // address the user no longer has or requests.
+  async verifyEmailWithToken(tokenHash: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const token = await consumeAuthToken(tx, "email_verification", tokenHash);
+      if (!token) {
+        return undefined;
+      }
+
+      const [current] = await tx.select().from(users).where(eq(users.id, token.userId)).for("update");
+      if (current?.email === token.email) {
+        const [user] = await tx
+          .update(users)
+          .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+          .where(eq(users.id, current.id))
+          .returning();
+        return user;
+      }
+      if (!current || current.pendingEmail !== token.email) {
+        return undefined;
+      }
+
+      // Confirms a requested change of address
+      const [other] = await tx
+        .select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.email, token.email), ne(users.id, current.id)));
+      if (other) {
+        throw new EmailInUseError();
+      }
+      const [user] = await tx
+        .update(users)
+        .set({ email: token.email, pendingEmail: null, emailVerifiedAt: new Date(), updatedAt: new Date() })
+        .where(eq(users.id, current.id))
+        .returning();
+      return user;
+    });
+  }
+
+  // Login throttling operations
+  async createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [created] = await db.insert(loginAttempts).values(attempt).returning();
+    return created;
+  }
+
+  async getLoginAttempts(filters: LoginAttemptFilters = {}): Promise<LoginAttempt[]> {
+    const conditions: SQL[] = [];
+    if (filters.username) {
+      conditions.push(eq(loginAttempts.username, filters.username));
+    }
+    if (filters.ipAddress) {
+      conditions.push(eq(loginAttempts.ipAddress, filters.ipAddress));
+    }
+    if (filters.succeeded !== undefined) {
+      conditions.push(eq(loginAttempts.succeeded, filters.succeeded));
+    }
+
+    const query = db
+      .select()
+      .from(loginAttempts)
+      .where(and(...conditions))
+      .orderBy(desc(loginAttempts.createdAt))
+      .$dynamic();
+
+    if (filters.limit !== undefined) {
+      query.limit(filters.limit);
+    }
+    if (filters.offset !== undefined) {
+      query.offset(filters.offset);
+    }
+    return await query;
+  }
+
+  // Counts a login attempt as a failure against every key before the password
+  // is checked, and locks a key out if that failure calls for it. The counters
+  // are row-locked for the transaction, so concurrent attempts are counted one
+  // at a time and none can slip past a lockout. A key that is already locked
+  // out stops the reservation: nothing is counted and its expiry is returned.
+  async reserveLoginAttempt(
+    keys: LoginThrottleKey[],
+    now: Date,
+    windowMs: number,
+    lockoutMs: (scope: LoginLockoutScope, failureCount: number) => number,
+  ): Promise<LoginAttemptReservation> {
+    const windowStart = new Date(now.getTime() - windowMs);
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(loginLockouts)
+        .where(or(...keys.map(({ scope, key }) => and(eq(loginLockouts.scope, scope), eq(loginLockouts.key, key)))))
+        .orderBy(asc(loginLockouts.scope), asc(loginLockouts.key))
+        .for("update");
+      const lockedUntil = existing
+        .map((counter) => counter.lockedUntil)
+        .filter((until): until is Date => !!until && until > now)
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+      if (lockedUntil) {
+        return { lockedUntil, counters: [] };
+      }
+
+      const counters: LoginLockout[] = [];
+      for (const { scope, key } of keys) {
+        // Failures older than the window start the count again
+        const [counter] = await tx
+          .insert(loginLockouts)
+          .values({ scope, key, failureCount: 1, lastFailureAt: now })
+          .onConflictDoUpdate({
+            target: [loginLockouts.scope, loginLockouts.key],
+            set: {
+              failureCount: sql`CASE WHEN ${loginLockouts.lastFailureAt} < ${windowStart} THEN 1 ELSE ${loginLockouts.failureCount} + 1 END`,
+              lastFailureAt: now,
+            },
+          })
+          .returning();
+
+        const duration = lockoutMs(scope, counter.failureCount);
+        if (duration > 0) {
+          const [locked] = await tx
+            .update(loginLockouts)
+            .set({ lockedUntil: new Date(now.getTime() + duration) })
+            .where(eq(loginLockouts.id, counter.id))
+            .returning();
+          counters.push(locked);
+        } else {
+          counters.push(counter);
+        }
+      }
+      return { lockedUntil: null, counters };
+    });
+  }
+
+  // Undoes a reservation once the password has proven correct. The account's
+  // counter is cleared; the IP keeps its other failures but loses this one and
+  // any lockout the reservation set.
+  async releaseLoginAttempt(counters: LoginLockout[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const counter of counters) {
+        if (counter.scope === "account") {
+          await tx.delete(loginLockouts).where(eq(loginLockouts.id, counter.id));
+          continue;
+        }
+        await tx
+          .update(loginLockouts)
+          .set({ failureCount: sql`greatest(${loginLockouts.failureCount} - 1, 0)` })
+          .where(eq(loginLockouts.id, counter.id));
+        if (counter.lockedUntil) {
+          await tx
+            .update(loginLockouts)
+            .set({ lockedUntil: null })
+            .where(and(eq(loginLockouts.id, counter.id), eq(loginLockouts.lockedUntil, counter.lockedUntil)));
+        }
+      }
+    });
+  }
+
+  async getLoginLockouts(activeOnly: boolean): Promise<LoginLockout[]> {
+    return await db
+      .select()
+      .from(loginLockouts)
+      .where(activeOnly ? gt(loginLockouts.lockedUntil, new Date()) : undefined)
+      .orderBy(desc(loginLockouts.lastFailureAt));
+  }
+
+  async getLoginLockout(id: string): Promise<LoginLockout | undefined> {
+    const [lockout] = await db.select().from(loginLockouts).where(eq(loginLockouts.id, id));
+    return lockout;
+  }
+
+  async deleteLoginLockout(id: string): Promise<boolean> {
+    const removed = await db.delete(loginLockouts).where(eq(loginLockouts.id, id)).returning({ id: loginLockouts.id });
+    return removed.length > 0;
+  }
+
+  async updateUserStripeInfo(id: string, stripeCustomerId: string, stripeSubscriptionId: string | null): Promise<User> {
     const [user] = await db
       .update(users)
       .set({
@@ -182,11 +1251,70 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(categories).orderBy(categories.name);
   }
 
+  // Counts only active products, matching what the storefront can show
+  async getCategoriesWithProductCounts(): Promise<CategoryWithProductCount[]> {
+    const results = await db
+      .select({
+        category: categories,
+        productCount: sql<number>`count(${products.id})::int`,
+      })
+      .from(categories)
+      .leftJoin(products, and(eq(products.categoryId, categories.id), eq(products.isActive, true)))
+      .groupBy(categories.id)
+      .orderBy(categories.name);
+
+    return results.map(row => ({ ...row.category, productCount: row.productCount }));
+  }
+
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.slug, slug));
+    return category;
+  }
+
   async createCategory(category: InsertCategory): Promise<Category> {
     const [newCategory] = await db.insert(categories).values(category).returning();
     return newCategory;
   }
 
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async updateCategory(id: string, updates: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [category] = await db
+      .update(categories)
+      .set(updates)
+      .where(eq(categories.id, id))
+      .returning();
+    return category;
+  }
+
+  // Deletes a category. Products still in it are moved to `reassignTo` (which is
+  // how categories are merged); without a target the deletion is refused.
+  // Returns the number of products that were reassigned.
+  async deleteCategory(id: string, reassignTo?: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(products)
+        .where(eq(products.categoryId, id));
+
+      if (count > 0) {
+        if (!reassignTo) {
+          throw new EntityInUseError("Category", count);
+        }
+        await tx
+          .update(products)
+          .set({ categoryId: reassignTo, updatedAt: new Date() })
+          .where(eq(products.categoryId, id));
+      }
+
+      await tx.delete(categories).where(eq(categories.id, id));
+      return count;
+    });
+  }
+
   async deleteAllCategories(): Promise<void> {
     await db.delete(categories);
   }
@@ -196,8 +1324,28 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(brands).orderBy(brands.name);
   }
 
+  async getBrandsWithProductCounts(): Promise<BrandWithProductCount[]> {
+    const results = await db
+      .select({
+        brand: brands,
+        productCount: sql<number>`count(${products.id})::int`,
+      })
+      .from(brands)
+      .leftJoin(products, and(eq(products.brandId, brands.id), eq(products.isActive, true)))
+      .groupBy(brands.id)
+      .orderBy(brands.name);
+
+    return results.map(row => ({ ...row.brand, productCount: row.productCount }));
+  }
+
+  async getBrand(id: string): Promise<Brand | undefined> {
+    const [brand] = await db.select().from(brands).where(eq(brands.id, id));
+    return brand;
+  }
+
+  // Case-insensitive, so "GNC" and "gnc" resolve to the same brand
   async getBrandByName(name: string): Promise<Brand | undefined> {
-    const [brand] = await db.select().from(brands).where(eq(brands.name, name));
+    const [brand] = await db.select().from(brands).where(ilike(brands.name, name.replace(/[\\%_]/g, "\\$&")));
     return brand;
   }
 
@@ -206,28 +1354,62 @@ export class DatabaseStorage implements IStorage {
     return newBrand;
   }
 
+  async updateBrand(id: string, updates: Partial<InsertBrand>): Promise<Brand | undefined> {
+    const [brand] = await db
+      .update(brands)
+      .set(updates)
+      .where(eq(brands.id, id))
+      .returning();
+    return brand;
+  }
+
+  // Same semantics as deleteCategory: products move to `reassignTo` or the deletion is refused.
+  async deleteBrand(id: string, reassignTo?: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(products)
+        .where(eq(products.brandId, id));
+
+      if (count > 0) {
+        if (!reassignTo) {
+          throw new EntityInUseError("Brand", count);
+        }
+        await tx
+          .update(products)
+          .set({ brandId: reassignTo, updatedAt: new Date() })
+          .where(eq(products.brandId, id));
+      }
+
+      await tx.delete(brands).where(eq(brands.id, id));
+      return count;
+    });
+  }
+
   async deleteAllBrands(): Promise<void> {
     await db.delete(brands);
   }
 
   // Product operations
-  async getProducts(filters?: {
-    categoryId?: string;
-    brandId?: string;
-    search?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    inStock?: boolean;
-    limit?: number;
-    offset?: number;
-  }): Promise<ProductWithRelations[]> {
-    const results = await db
+  async getProducts(filters: ProductFilters = {}): Promise<ProductWithRelations[]> {
+    const query = db
       .select()
       .from(products)
       .leftJoin(categories, eq(products.categoryId, categories.id))
       .leftJoin(brands, eq(products.brandId, brands.id))
-      .where(eq(products.isActive, true))
-      .orderBy(desc(products.createdAt));
+      .where(and(...productFilterConditions(filters)))
+      // products.id keeps pagination stable when the sort key ties
+      .orderBy(...productSortOrder(filters.sort), asc(products.id))
+      .$dynamic();
+
+    if (filters.limit !== undefined) {
+      query.limit(filters.limit);
+    }
+    if (filters.offset !== undefined) {
+      query.offset(filters.offset);
+    }
+
+    const results = await query;
 
     return results.map(row => ({
       ...row.products,
@@ -236,6 +1418,117 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getProductCount(filters: ProductFilters = {}): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(products)
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .leftJoin(brands, eq(products.brandId, brands.id))
+      .where(and(...productFilterConditions(filters)));
+    return result.count;
+  }
+
+  // Full-text search over product name, brand, dosage and descriptions, with a
+  // trigram fallback so misspelled drug names ("paracetmol") still match.
+  // Requires the pg_trgm extension (see ensureDatabaseExtensions in db.ts).
+  async searchProducts(query: string, filters: ProductFilters = {}): Promise<ProductSearchResult> {
+    const document = sql`(
+      setweight(to_tsvector('english', coalesce(${products.name}, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(${brands.name}, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(${products.dosage}, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(${products.shortDescription}, '')), 'C') ||
+      setweight(to_tsvector('english', coalesce(${products.description}, '')), 'D')
+    )`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const similarity = sql`greatest(
+      word_similarity(${query}, ${products.name}),
+      word_similarity(${query}, coalesce(${brands.name}, ''))
+    )`;
+    const rank = sql<number>`(ts_rank(${document}, ${tsQuery}) + ${similarity})::float`;
+
+    const where = and(
+      ...productFilterConditions({ ...filters, search: undefined }),
+      sql`(${document} @@ ${tsQuery} OR ${similarity} > ${TRIGRAM_MATCH_THRESHOLD})`,
+    );
+
+    const priceBucket = sql<string>`case
+      ${sql.join(PRICE_BUCKETS.map((bucket) => bucket.max === null
+        ? sql`when ${products.price} >= ${bucket.min} then ${bucket.key}`
+        : sql`when ${products.price} < ${bucket.max} then ${bucket.key}`), sql` `)}
+    end`;
+
+    const [rows, [{ count: total }], categoryFacets, brandFacets, priceFacets, prescriptionFacets] = await Promise.all([
+      db
+        .select({ product: products, category: categories, brand: brands, rank })
+        .from(products)
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .leftJoin(brands, eq(products.brandId, brands.id))
+        .where(where)
+        .orderBy(desc(rank), asc(products.name), asc(products.id))
+        .limit(filters.limit ?? 20)
+        .offset(filters.offset ?? 0),
+      db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(products)
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .leftJoin(brands, eq(products.brandId, brands.id))
+        .where(where),
+      db
+        .select({ id: categories.id, name: categories.name, slug: categories.slug, count: sql<number>`count(*)::int` })
+        .from(products)
+        .innerJoin(categories, eq(products.categoryId, categories.id))
+        .leftJoin(brands, eq(products.brandId, brands.id))
+        .where(where)
+        .groupBy(categories.id)
+        .orderBy(desc(sql`count(*)`), asc(categories.name)),
+      db
+        .select({ id: brands.id, name: brands.name, count: sql<number>`count(*)::int` })
+        .from(products)
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .innerJoin(brands, eq(products.brandId, brands.id))
+        .where(where)
+        .groupBy(brands.id)
+        .orderBy(desc(sql`count(*)`), asc(brands.name)),
+      db
+        .select({ key: priceBucket, count: sql<number>`count(*)::int` })
+        .from(products)
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .leftJoin(brands, eq(products.brandId, brands.id))
+        .where(where)
+        // Grouping by the bound CASE expression would not match the SELECT list, so use its position
+        .groupBy(sql`1`),
+      db
+        .select({ value: products.requiresPrescription, count: sql<number>`count(*)::int` })
+        .from(products)
+        .leftJoin(categories, eq(products.categoryId, categories.id))
+        .leftJoin(brands, eq(products.brandId, brands.id))
+        .where(where)
+        .groupBy(products.requiresPrescription),
+    ]);
+
+    return {
+      products: rows.map((row) => ({
+        ...row.product,
+        category: row.category || undefined,
+        brand: row.brand || undefined,
+        rank: row.rank,
+      })),
+      total,
+      facets: {
+        categories: categoryFacets,
+        brands: brandFacets,
+        priceRanges: PRICE_BUCKETS.map((bucket) => ({
+          ...bucket,
+          count: priceFacets.find((facet) => facet.key === bucket.key)?.count ?? 0,
+        })),
+        requiresPrescription: prescriptionFacets.map((facet) => ({
+          value: !!facet.value,
+          count: facet.count,
+        })),
+      },
+    };
+  }
+
   async getProduct(id: string): Promise<ProductWithRelations | undefined> {
     const [result] = await db
       .select()
@@ -270,32 +1563,109 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const [newProduct] = await db.insert(products).values(product).returning();
-    return newProduct;
+  // Any initial stock is booked as a receipt so the ledger adds up from the start
+  async createProduct(product: InsertProduct, actorId?: string): Promise<Product> {
+    const { stockQuantity, ...details } = product;
+    return await db.transaction(async (tx) => {
+      const [newProduct] = await tx.insert(products).values({ ...details, stockQuantity: 0 }).returning();
+      if (!stockQuantity) {
+        return newProduct;
+      }
+
+      await applyInventoryMovement(tx, {
+        productId: newProduct.id,
+        type: "receipt",
+        quantity: stockQuantity,
+        reason: "Initial stock",
+        actorId: actorId ?? null,
+      });
+      const [stocked] = await tx.select().from(products).where(eq(products.id, newProduct.id));
+      return stocked;
+    });
+  }
+
+  async deleteAllProducts(): Promise<void> {
+    await db.delete(products);
+  }
+
+  // Deletes the catalogue and every order and cart; users and prescriptions stay
+  async clearAllData(): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Delete in correct order to respect foreign key constraints
+      await tx.delete(inventoryMovements);
+      await tx.delete(orderItemAllocations);
+      await tx.delete(productBatches);
+      await tx.delete(orderEvents);
+      await tx.delete(orderItems);
+      await tx.delete(orders);
+      await tx.delete(cartItems);
+      await tx.delete(products);
+      await tx.delete(categories);
+      await tx.delete(brands);
+      await tx.delete(adminNotifications).where(eq(adminNotifications.entityType, "product"));
+    });
   }
 
-  async updateProductStock(id: string, quantity: number): Promise<Product> {
-    const [product] = await db
-      .update(products)
-      .set({ stockQuantity: quantity, updatedAt: new Date() })
-      .where(eq(products.id, id))
+  async upsertCategory(category: InsertCategory): Promise<Category> {
+    const [upserted] = await db
+      .insert(categories)
+      .values(category)
+      .onConflictDoUpdate({
+        target: categories.slug,
+        set: { name: category.name, description: category.description ?? null },
+      })
       .returning();
-    return product;
+    return upserted;
   }
 
-  async deleteAllProducts(): Promise<void> {
-    await db.delete(products);
+  // Brands have no slug: the oldest brand with the same name (ignoring case) is updated
+  async upsertBrand(brand: InsertBrand): Promise<Brand> {
+    const [existing] = await db
+      .select()
+      .from(brands)
+      .where(sql`lower(trim(${brands.name})) = ${brand.name.trim().toLowerCase()}`)
+      .orderBy(asc(brands.createdAt))
+      .limit(1);
+    if (!existing) {
+      return await this.createBrand(brand);
+    }
+    const [updated] = await db.update(brands).set(brand).where(eq(brands.id, existing.id)).returning();
+    return updated;
   }
 
-  async clearAllData(): Promise<void> {
-    // Delete in correct order to respect foreign key constraints
-    await db.delete(orderItems);
-    await db.delete(orders);  
-    await db.delete(cartItems);
-    await db.delete(products);
-    await db.delete(categories);
-    await db.delete(brands);
+  // Creates the product, or updates the one with the same slug. Stock is only
+  // set when the product is created; after that it changes through movements.
+  async upsertProductBySlug(product: InsertProduct): Promise<{ product: Product; created: boolean }> {
+    const [existing] = await db.select({ id: products.id }).from(products).where(eq(products.slug, product.slug));
+    if (!existing) {
+      return { product: await this.createProduct(product), created: true };
+    }
+    const { stockQuantity, ...updates } = product;
+    return { product: await this.updateProduct(existing.id, updates), created: false };
+  }
+
+  async getDatabaseSummary(): Promise<DatabaseSummary> {
+    const count = async (table: typeof users | typeof categories | typeof brands | typeof products | typeof orders | typeof prescriptions) => {
+      const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(table);
+      return result.count;
+    };
+    const [stock] = await db
+      .select({
+        activeProducts: sql<number>`count(*) filter (where ${products.isActive})::int`,
+        unitsInStock: sql<number>`coalesce(sum(${products.stockQuantity}), 0)::int`,
+      })
+      .from(products);
+
+    return {
+      users: await count(users),
+      categories: await count(categories),
+      brands: await count(brands),
+      products: await count(products),
+      activeProducts: stock.activeProducts,
+      unitsInStock: stock.unitsInStock,
+      orders: await count(orders),
+      prescriptions: await count(prescriptions),
+    };
   }
 
   // Cart operations
@@ -319,6 +1689,14 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getCartItem(userId: string, productId: string): Promise<CartItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(cartItems)
+      .where(and(eq(cartItems.userId, userId), eq(cartItems.productId, productId)));
+    return item;
+  }
+
   async addToCart(userId: string, productId: string, quantity: number): Promise<CartItem> {
     // Check if item already exists in cart
     const [existingItem] = await db
@@ -374,41 +1752,73 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Order operations
-  async getOrders(userId: string): Promise<OrderWithItems[]> {
-    const ordersWithItems = await db
+  async getOrders(userId: string, filters: OrderFilters = {}): Promise<OrderWithItems[]> {
+    const results = await this.findOrders({ ...filters, userId });
+    return results.map(({ customer, ...order }) => order);
+  }
+
+  async getOrderCount(userId: string, filters: OrderFilters = {}): Promise<number> {
+    return this.countOrders({ ...filters, userId });
+  }
+
+  async findOrders(filters: OrderFilters = {}): Promise<OrderWithCustomer[]> {
+    // Page over orders first so LIMIT counts orders rather than order item rows
+    const query = db
       .select({
         order: orders,
+        customer: {
+          id: users.id,
+          username: users.username,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(orders)
+      .innerJoin(users, eq(orders.userId, users.id))
+      .where(and(...orderFilterConditions(filters)))
+      .orderBy(desc(orders.createdAt), desc(orders.id))
+      .$dynamic();
+
+    if (filters.limit !== undefined) {
+      query.limit(filters.limit);
+    }
+    if (filters.offset !== undefined) {
+      query.offset(filters.offset);
+    }
+
+    const pageOrders = await query;
+    if (pageOrders.length === 0) {
+      return [];
+    }
+
+    const itemRows = await db
+      .select({
         orderItem: orderItems,
         product: products,
       })
-      .from(orders)
-      .leftJoin(orderItems, eq(orders.id, orderItems.orderId))
-      .leftJoin(products, eq(orderItems.productId, products.id))
-      .where(eq(orders.userId, userId))
-      .orderBy(desc(orders.createdAt));
+      .from(orderItems)
+      .innerJoin(products, eq(orderItems.productId, products.id))
+      .where(inArray(orderItems.orderId, pageOrders.map((row) => row.order.id)))
+      .orderBy(orderItems.createdAt);
 
     // Group by order
-    const groupedOrders: Record<string, OrderWithItems> = {};
-    
-    for (const row of ordersWithItems) {
-      const orderId = row.order.id;
-      
-      if (!groupedOrders[orderId]) {
-        groupedOrders[orderId] = {
-          ...row.order,
-          orderItems: [],
-        };
-      }
-      
-      if (row.orderItem && row.product) {
-        groupedOrders[orderId].orderItems.push({
-          ...row.orderItem,
-          product: row.product,
-        });
-      }
-    }
+    return pageOrders.map(({ order, customer }) => ({
+      ...order,
+      customer,
+      orderItems: itemRows
+        .filter((row) => row.orderItem.orderId === order.id)
+        .map((row) => ({ ...row.orderItem, product: row.product })),
+    }));
+  }
 
-    return Object.values(groupedOrders);
+  async countOrders(filters: OrderFilters = {}): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(orders)
+      .innerJoin(users, eq(orders.userId, users.id))
+      .where(and(...orderFilterConditions(filters)));
+    return result.count;
   }
 
   async getOrder(id: string): Promise<OrderWithItems | undefined> {
@@ -469,23 +1879,270 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async updateOrderStatus(id: string, status: string, paymentStatus?: string): Promise<Order> {
-    const updateData: any = {
-      status,
-      updatedAt: new Date(),
-    };
+  // Converts the user's cart into an order. Stock is decremented row by row with a
+  // guarded UPDATE, so a concurrent buyer taking the last units makes this
+  // transaction roll back instead of overselling. Units are drawn from batches
+  // first-expiry-first-out and the batches used are recorded per order item.
+  //
+  // Orders containing prescription-only products are placed in
+  // 'awaiting_prescription' (stock stays reserved) unless the linked prescription
+  // already authorizes them.
+  async checkoutCart(userId: string, details: CheckoutDetails): Promise<CheckoutResult> {
+    return await db.transaction(async (tx) => {
+      let prescription: Prescription | undefined;
+      if (details.prescriptionId) {
+        [prescription] = await tx
+          .select()
+          .from(prescriptions)
+          .where(and(eq(prescriptions.id, details.prescriptionId), eq(prescriptions.userId, userId)));
+        if (!prescription) {
+          throw new PrescriptionNotFoundError();
+        }
+      }
 
-    if (paymentStatus) {
-      updateData.paymentStatus = paymentStatus;
-    }
+      const cart = await tx
+        .select()
+        .from(cartItems)
+        .innerJoin(products, eq(cartItems.productId, products.id))
+        .where(eq(cartItems.userId, userId))
+        .orderBy(cartItems.createdAt);
+
+      if (cart.length === 0) {
+        throw new CartEmptyError();
+      }
+
+      const reservedProducts: Record<string, Product> = {};
+      const batchAllocations: Record<string, BatchAllocation[]> = {};
+      let totalAmount = 0;
+
+      for (const { cart_items: item, products: product } of cart) {
+        if (!product.isActive) {
+          throw new ProductUnavailableError(product.id, product.name);
+        }
+
+        const [reserved] = await tx
+          .update(products)
+          .set({
+            stockQuantity: sql`${products.stockQuantity} - ${item.quantity}`,
+            updatedAt: new Date(),
+          })
+          .where(and(
+            eq(products.id, product.id),
+            eq(products.isActive, true),
+            gte(products.stockQuantity, item.quantity),
+          ))
+          .returning();
+
+        if (!reserved) {
+          throw new InsufficientStockError(product.id, product.name, item.quantity, product.stockQuantity ?? 0);
+        }
+
+        batchAllocations[reserved.id] = await allocateFromBatches(tx, reserved, item.quantity);
+        reservedProducts[reserved.id] = reserved;
+        totalAmount += toMinorUnits(reserved.price) * item.quantity;
+      }
+
+      const prescriptionProblems = findPrescriptionProblems(
+        prescription,
+        userId,
+        Object.values(reservedProducts).filter((product) => product.requiresPrescription),
+      );
+
+      const [newOrder] = await tx
+        .insert(orders)
+        .values({
+          userId,
+          orderNumber: generateOrderNumber(),
+          status: prescriptionProblems.length > 0 ? "awaiting_prescription" : "pending",
+          paymentStatus: "pending",
+          prescriptionId: prescription?.id ?? null,
+          totalAmount: formatMinorUnits(totalAmount),
+          shippingAddress: details.shippingAddress ?? null,
+          billingAddress: details.billingAddress ?? details.shippingAddress ?? null,
+        })
+        .returning();
+
+      const newOrderItems = await tx
+        .insert(orderItems)
+        .values(cart.map(({ cart_items: item }) => ({
+          orderId: newOrder.id,
+          productId: item.productId,
+          quantity: item.quantity,
+          // Snapshot the price at the time of purchase
+          price: reservedProducts[item.productId].price,
+        })))
+        .returning();
+
+      const newAllocations = newOrderItems.flatMap((orderItem) =>
+        batchAllocations[orderItem.productId].map((allocation) => ({ orderItemId: orderItem.id, ...allocation })));
+      if (newAllocations.length > 0) {
+        await tx.insert(orderItemAllocations).values(newAllocations);
+      }
+
+      // Stock was taken above, before the order existed to reference
+      await tx.insert(inventoryMovements).values(cart.map(({ cart_items: item }) => ({
+        productId: item.productId,
+        type: "sale",
+        quantity: -item.quantity,
+        balanceAfter: reservedProducts[item.productId].stockQuantity ?? 0,
+        actorId: userId,
+        orderId: newOrder.id,
+      })));
+
+      await tx.insert(orderEvents).values({
+        orderId: newOrder.id,
+        actorType: "customer",
+        actorId: userId,
+        previousStatus: null,
+        newStatus: newOrder.status,
+        previousPaymentStatus: null,
+        newPaymentStatus: newOrder.paymentStatus,
+      });
+
+      await tx.delete(cartItems).where(eq(cartItems.userId, userId));
+
+      return {
+        order: {
+          ...newOrder,
+          orderItems: newOrderItems.map((item) => ({
+            ...item,
+            product: reservedProducts[item.productId],
+          })),
+        },
+        prescriptionProblems,
+      };
+    });
+  }
+
+  // Links an approved prescription to a held order and makes it payable,
+  // swapping out any allocated lots that expired during the hold. Returns
+  // undefined if the order is not awaiting a prescription.
+  async releasePrescriptionHold(id: string, prescriptionId: string, actor: OrderEventActor): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .update(orders)
+        .set({ prescriptionId, status: "pending", updatedAt: new Date() })
+        .where(and(eq(orders.id, id), eq(orders.status, "awaiting_prescription")))
+        .returning();
+      if (!order) {
+        return undefined;
+      }
+      await reallocateExpiredUnits(tx, order.id);
+
+      await tx.insert(orderEvents).values({
+        orderId: order.id,
+        actorType: actor.type,
+        actorId: actor.id ?? null,
+        previousStatus: "awaiting_prescription",
+        newStatus: order.status,
+        previousPaymentStatus: order.paymentStatus,
+        newPaymentStatus: order.paymentStatus,
+        note: "Prescription approved",
+      });
+      return order;
+    });
+  }
+
+  async getOrderByPaymentIntentId(paymentIntentId: string): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.stripePaymentIntentId, paymentIntentId));
+    return order;
+  }
 
-    const [updatedOrder] = await db
+  async setOrderPaymentIntent(id: string, paymentIntentId: string): Promise<Order> {
+    const [order] = await db
       .update(orders)
-      .set(updateData)
+      .set({ stripePaymentIntentId: paymentIntentId, updatedAt: new Date() })
       .where(eq(orders.id, id))
       .returning();
+    return order;
+  }
+
+  async getOrderEvents(orderId: string): Promise<OrderEventWithActor[]> {
+    const rows = await db
+      .select({
+        event: orderEvents,
+        actor: {
+          id: users.id,
+          username: users.username,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(orderEvents)
+      .leftJoin(users, eq(orderEvents.actorId, users.id))
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(asc(orderEvents.createdAt), asc(orderEvents.id));
+
+    return rows.map(({ event, actor }) => ({ ...event, actor }));
+  }
 
-    return updatedOrder;
+  async getOrderEventsForOrders(orderIds: string[]): Promise<OrderEvent[]> {
+    if (orderIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(orderEvents)
+      .where(inArray(orderEvents.orderId, orderIds))
+      .orderBy(asc(orderEvents.createdAt), asc(orderEvents.id));
+  }
+
+  // Moves an order through the status state machine (see orderStatus.ts) and/or
+  // records a payment status. Cancelling restores the order's reserved stock;
+  // dispatching swaps out any allocated lots that have since expired.
+  // Every change (or a note on an unchanged order) is recorded in order_events.
+  async updateOrderStatus(id: string, changes: OrderStatusChange): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, id))
+        .for("update");
+      if (!order) {
+        throw new OrderNotFoundError();
+      }
+
+      const status = changes.status ?? order.status;
+      if (changes.status && !canTransitionOrder(order.status, changes.status)) {
+        throw new InvalidOrderTransitionError(order.status, changes.status);
+      }
+
+      const actor = changes.actor ?? SYSTEM_ACTOR;
+      if (changes.status && changes.status !== order.status && releasesStock(order.status, changes.status)) {
+        await restockOrderItems(tx, order.id, actor);
+      }
+      if (changes.status === "dispatched" && order.status !== "dispatched") {
+        await reallocateExpiredUnits(tx, order.id);
+      }
+
+      const paymentStatus = changes.paymentStatus ?? order.paymentStatus;
+      if (status === order.status && paymentStatus === order.paymentStatus && !changes.note) {
+        return order;
+      }
+
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ status, paymentStatus, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+
+      await tx.insert(orderEvents).values({
+        orderId: order.id,
+        actorType: actor.type,
+        actorId: actor.id ?? null,
+        previousStatus: order.status,
+        newStatus: status,
+        previousPaymentStatus: order.paymentStatus,
+        newPaymentStatus: paymentStatus,
+        note: changes.note ?? null,
+      });
+
+      return updatedOrder;
+    });
   }
 
   // Admin operations implementation
@@ -499,11 +2156,13 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async setUserAdmin(id: string, isAdmin: boolean, role?: string): Promise<User> {
+  // Revoking admin access also clears the role; individual grants are kept
+  // but have no effect while the user is not an admin.
+  async setUserAdmin(id: string, isAdmin: boolean, role?: AdminRole | null): Promise<User | undefined> {
     const [user] = await db.update(users)
       .set({ 
         isAdmin, 
-        adminRole: role,
+        adminRole: isAdmin ? role ?? null : null,
         updatedAt: new Date(),
       })
       .where(eq(users.id, id))
@@ -511,32 +2170,42 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async addAdminPermission(userId: string, permission: string): Promise<AdminPermission> {
+  // Granting a permission the user already holds returns the existing grant
+  async addAdminPermission(userId: string, permission: Permission): Promise<AdminPermission> {
+    const existing = await db.query.adminPermissions.findFirst({
+      where: and(
+        eq(adminPermissions.userId, userId),
+        eq(adminPermissions.permission, permission)
+      ),
+    });
+    if (existing) {
+      return existing;
+    }
+
     const [adminPermission] = await db.insert(adminPermissions)
       .values({ userId, permission })
       .returning();
     return adminPermission;
   }
 
-  async removeAdminPermission(userId: string, permission: string): Promise<void> {
-    await db.delete(adminPermissions)
+  // Returns false if the user had no such grant
+  async removeAdminPermission(userId: string, permission: string): Promise<boolean> {
+    const removed = await db.delete(adminPermissions)
       .where(and(
         eq(adminPermissions.userId, userId),
         eq(adminPermissions.permission, permission)
-      ));
+      ))
+      .returning({ id: adminPermissions.id });
+    return removed.length > 0;
   }
 
-  async hasAdminPermission(userId: string, permission: string): Promise<boolean> {
-    const permission_record = await db.query.adminPermissions.findFirst({
-      where: and(
-        eq(adminPermissions.userId, userId),
-        eq(adminPermissions.permission, permission)
-      ),
-    });
-    return !!permission_record;
+  // Checks the user's resolved permissions: their role's bundle plus individual grants
+  async hasAdminPermission(userId: string, permission: Permission): Promise<boolean> {
+    const user = await this.getUserWithPermissions(userId);
+    return !!user && resolvePermissions(user).has(permission);
   }
 
-  async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product> {
+  async updateProduct(id: string, updates: ProductUpdate): Promise<Product> {
     const [product] = await db.update(products)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(products.id, id))
@@ -548,6 +2217,341 @@ export class DatabaseStorage implements IStorage {
     await db.delete(products).where(eq(products.id, id));
   }
 
+  async recordInventoryMovement(movement: InventoryMovementInput): Promise<InventoryMovement> {
+    return await db.transaction(async (tx) => applyInventoryMovement(tx, movement));
+  }
+
+  async getInventoryMovements(productId: string, filters: InventoryMovementFilters = {}): Promise<InventoryMovementWithActor[]> {
+    const query = db
+      .select({
+        movement: inventoryMovements,
+        actor: {
+          id: users.id,
+          username: users.username,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(inventoryMovements)
+      .leftJoin(users, eq(inventoryMovements.actorId, users.id))
+      .where(eq(inventoryMovements.productId, productId))
+      .orderBy(desc(inventoryMovements.createdAt), desc(inventoryMovements.id))
+      .$dynamic();
+
+    if (filters.limit !== undefined) {
+      query.limit(filters.limit);
+    }
+    if (filters.offset !== undefined) {
+      query.offset(filters.offset);
+    }
+
+    const rows = await query;
+    return rows.map(({ movement, actor }) => ({ ...movement, actor }));
+  }
+
+  async countInventoryMovements(productId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(inventoryMovements)
+      .where(eq(inventoryMovements.productId, productId));
+    return result.count;
+  }
+
+  // Books a delivery of a new lot: the batch and its receipt movement
+  async receiveBatch(receipt: BatchReceipt): Promise<{ batch: ProductBatch; movement: InventoryMovement }> {
+    return await db.transaction(async (tx) => {
+      const [product] = await tx.select({ id: products.id }).from(products).where(eq(products.id, receipt.productId));
+      if (!product) {
+        throw new ProductNotFoundError();
+      }
+
+      const [created] = await tx
+        .insert(productBatches)
+        .values({
+          productId: receipt.productId,
+          lotNumber: receipt.lotNumber,
+          expiryDate: receipt.expiryDate,
+          supplier: receipt.supplier ?? null,
+          quantityReceived: receipt.quantity,
+          // Filled by the receipt movement below
+          quantityRemaining: 0,
+        })
+        .onConflictDoNothing({ target: [productBatches.productId, productBatches.lotNumber] })
+        .returning();
+      if (!created) {
+        throw new DuplicateBatchError(receipt.lotNumber);
+      }
+
+      const movement = await applyInventoryMovement(tx, {
+        productId: receipt.productId,
+        type: "receipt",
+        quantity: receipt.quantity,
+        reason: receipt.reason,
+        actorId: receipt.actorId,
+        batchId: created.id,
+      });
+      const [batch] = await tx.select().from(productBatches).where(eq(productBatches.id, created.id));
+      return { batch, movement };
+    });
+  }
+
+  async getProductBatches(productId: string): Promise<ProductBatch[]> {
+    return await db
+      .select()
+      .from(productBatches)
+      .where(eq(productBatches.productId, productId))
+      .orderBy(asc(productBatches.expiryDate), asc(productBatches.receivedAt));
+  }
+
+  // Batches with stock left that expire within the given number of days,
+  // including ones that have already expired
+  async getExpiringBatches(withinDays: number): Promise<ExpiringBatch[]> {
+    const rows = await db
+      .select({
+        batch: productBatches,
+        product: { id: products.id, name: products.name, slug: products.slug },
+      })
+      .from(productBatches)
+      .innerJoin(products, eq(productBatches.productId, products.id))
+      .where(and(
+        gt(productBatches.quantityRemaining, 0),
+        sql`${productBatches.expiryDate} <= current_date + ${withinDays}::int`,
+      ))
+      .orderBy(asc(productBatches.expiryDate), asc(products.name));
+    return rows.map(({ batch, product }) => ({ ...batch, product }));
+  }
+
+  async getOrderAllocations(orderId: string): Promise<OrderItemAllocationWithBatch[]> {
+    const rows = await db
+      .select({
+        allocation: orderItemAllocations,
+        batch: {
+          id: productBatches.id,
+          lotNumber: productBatches.lotNumber,
+          expiryDate: productBatches.expiryDate,
+          supplier: productBatches.supplier,
+        },
+      })
+      .from(orderItemAllocations)
+      .innerJoin(orderItems, eq(orderItemAllocations.orderItemId, orderItems.id))
+      .innerJoin(productBatches, eq(orderItemAllocations.batchId, productBatches.id))
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(asc(orderItems.createdAt), asc(productBatches.expiryDate));
+    return rows.map(({ allocation, batch }) => ({ ...allocation, batch }));
+  }
+
+  // Every product, active or not, by name; or just those with the given slugs
+  async getCatalogProducts(slugs?: string[]): Promise<ProductWithRelations[]> {
+    if (slugs && slugs.length === 0) {
+      return [];
+    }
+    const results = await db
+      .select()
+      .from(products)
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .leftJoin(brands, eq(products.brandId, brands.id))
+      .where(slugs ? inArray(products.slug, slugs) : undefined)
+      .orderBy(asc(products.name), asc(products.slug));
+
+    return results.map(row => ({
+      ...row.products,
+      category: row.categories || undefined,
+      brand: row.brands || undefined,
+    }));
+  }
+
+  // Creates or updates products by slug in one transaction, so re-running the
+  // same import changes nothing. Stock is untouched: new products start at zero.
+  async applyCatalogImport(entries: CatalogProductImport[]): Promise<CatalogImportResult> {
+    return await db.transaction(async (tx) => {
+      const result: CatalogImportResult = { created: 0, updated: 0, brandsCreated: 0, categoriesCreated: 0, productIds: {} };
+
+      const brandIds = new Map<string, string>();
+      for (const brand of await tx.select().from(brands).orderBy(asc(brands.createdAt))) {
+        const key = brand.name.trim().toLowerCase();
+        if (!brandIds.has(key)) {
+          brandIds.set(key, brand.id);
+        }
+      }
+      const categoryIds = new Map<string, string>();
+      for (const category of await tx.select().from(categories)) {
+        categoryIds.set(category.name.trim().toLowerCase(), category.id);
+        categoryIds.set(category.slug, category.id);
+      }
+
+      const brandIdFor = async (name: string | null): Promise<string | null> => {
+        if (!name) {
+          return null;
+        }
+        const key = name.toLowerCase();
+        if (!brandIds.has(key)) {
+          const [brand] = await tx.insert(brands).values({ name }).returning();
+          brandIds.set(key, brand.id);
+          result.brandsCreated++;
+        }
+        return brandIds.get(key)!;
+      };
+      const categoryIdFor = async (name: string | null): Promise<string | null> => {
+        if (!name) {
+          return null;
+        }
+        const key = name.toLowerCase();
+        const existing = categoryIds.get(key) ?? categoryIds.get(slugify(name));
+        if (existing) {
+          return existing;
+        }
+        const [category] = await tx.insert(categories).values({ name, slug: slugify(name) }).returning();
+        categoryIds.set(key, category.id);
+        categoryIds.set(category.slug, category.id);
+        result.categoriesCreated++;
+        return category.id;
+      };
+
+      for (const entry of entries) {
+        const values = {
+          name: entry.name,
+          price: entry.price,
+          imageUrl: entry.imageUrl,
+          brandId: await brandIdFor(entry.brandName),
+          categoryId: await categoryIdFor(entry.categoryName),
+        };
+        const [existing] = await tx.select({ id: products.id }).from(products).where(eq(products.slug, entry.slug));
+        if (existing) {
+          await tx.update(products).set({ ...values, updatedAt: new Date() }).where(eq(products.id, existing.id));
+          result.productIds[entry.slug] = existing.id;
+          result.updated++;
+        } else {
+          const [created] = await tx
+            .insert(products)
+            .values({ ...values, slug: entry.slug, stockQuantity: 0 })
+            .returning({ id: products.id });
+          result.productIds[entry.slug] = created.id;
+          result.created++;
+        }
+      }
+      return result;
+    });
+  }
+
+  // Units sold are counted from orders placed since the given date, except
+  // cancelled ones (their stock went back on the shelf)
+  async getStockLevels(salesSince: Date): Promise<ProductStockLevel[]> {
+    const sold = db
+      .select({
+        productId: orderItems.productId,
+        unitsSold: sql<number>`sum(${orderItems.quantity})::int`.as("units_sold"),
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(and(gte(orders.createdAt, salesSince), ne(orders.status, "cancelled")))
+      .groupBy(orderItems.productId)
+      .as("sold");
+
+    const rows = await db
+      .select({
+        product: products,
+        brand: { id: brands.id, name: brands.name },
+        unitsSold: sql<number>`coalesce(${sold.unitsSold}, 0)::int`,
+      })
+      .from(products)
+      .leftJoin(brands, eq(products.brandId, brands.id))
+      .leftJoin(sold, eq(sold.productId, products.id))
+      .where(eq(products.isActive, true))
+      .orderBy(asc(products.name));
+    return rows;
+  }
+
+  // Returns undefined if the subject already has an open notification of this type
+  async createAdminNotification(notification: InsertAdminNotification): Promise<AdminNotification | undefined> {
+    const [created] = await db
+      .insert(adminNotifications)
+      .values(notification)
+      .onConflictDoNothing({
+        target: [adminNotifications.type, adminNotifications.entityType, adminNotifications.entityId],
+        where: isNull(adminNotifications.resolvedAt),
+      })
+      .returning();
+    return created;
+  }
+
+  async getUnresolvedAdminNotifications(type: string): Promise<AdminNotification[]> {
+    return await db
+      .select()
+      .from(adminNotifications)
+      .where(and(eq(adminNotifications.type, type), isNull(adminNotifications.resolvedAt)));
+  }
+
+  async resolveAdminNotifications(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await db
+      .update(adminNotifications)
+      .set({ resolvedAt: new Date() })
+      .where(and(inArray(adminNotifications.id, ids), isNull(adminNotifications.resolvedAt)));
+  }
+
+  async getAdminNotifications(filters: AdminNotificationFilters = {}): Promise<AdminNotification[]> {
+    const query = db
+      .select()
+      .from(adminNotifications)
+      .where(and(...adminNotificationConditions(filters)))
+      .orderBy(desc(adminNotifications.createdAt), desc(adminNotifications.id))
+      .$dynamic();
+
+    if (filters.limit !== undefined) {
+      query.limit(filters.limit);
+    }
+    if (filters.offset !== undefined) {
+      query.offset(filters.offset);
+    }
+    return await query;
+  }
+
+  async countAdminNotifications(filters: AdminNotificationFilters = {}): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(adminNotifications)
+      .where(and(...adminNotificationConditions(filters)));
+    return result.count;
+  }
+
+  // Already-read notifications keep who read them first
+  async markAdminNotificationRead(id: string, userId: string): Promise<AdminNotification | undefined> {
+    const [notification] = await db
+      .update(adminNotifications)
+      .set({
+        readAt: sql`coalesce(${adminNotifications.readAt}, now())`,
+        readBy: sql`coalesce(${adminNotifications.readBy}, ${userId})`,
+      })
+      .where(eq(adminNotifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async markAllAdminNotificationsRead(userId: string): Promise<number> {
+    const updated = await db
+      .update(adminNotifications)
+      .set({ readAt: new Date(), readBy: userId })
+      .where(isNull(adminNotifications.readAt))
+      .returning({ id: adminNotifications.id });
+    return updated.length;
+  }
+
+  // Products stocked before the ledger existed get an opening balance movement
+  // so their movements add up to stockQuantity. Returns how many were added.
+  async backfillOpeningStockBalances(): Promise<number> {
+    const result = await db.execute(sql`
+      INSERT INTO ${inventoryMovements} (product_id, type, quantity, balance_after, reason)
+      SELECT ${products.id}, 'adjustment', ${products.stockQuantity}, ${products.stockQuantity}, 'Opening balance'
+      FROM ${products}
+      WHERE ${products.stockQuantity} > 0
+        AND NOT EXISTS (SELECT 1 FROM ${inventoryMovements} WHERE ${inventoryMovements.productId} = ${products.id})
+    `);
+    return result.rowCount ?? 0;
+  }
+
   async createPrescription(prescription: InsertPrescription): Promise<Prescription> {
     const [newPrescription] = await db.insert(prescriptions)
       .values(prescription)
@@ -594,13 +2598,15 @@ export class DatabaseStorage implements IStorage {
     id: string, 
     status: string, 
     reviewNotes?: string, 
-    reviewedBy?: string
-  ): Promise<Prescription> {
+    reviewedBy?: string,
+    expiresAt?: Date
+  ): Promise<Prescription | undefined> {
     const [prescription] = await db.update(prescriptions)
       .set({ 
         status, 
         reviewNotes,
         reviewedBy,
+        expiresAt,
         reviewedAt: new Date(),
         updatedAt: new Date(),
       })
@@ -608,6 +2614,91 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return prescription;
   }
+
+  // Only a pending prescription can be withdrawn by its owner
+  async withdrawPrescription(id: string, userId: string): Promise<Prescription | undefined> {
+    const [prescription] = await db.update(prescriptions)
+      .set({ status: "withdrawn", updatedAt: new Date() })
+      .where(and(
+        eq(prescriptions.id, id),
+        eq(prescriptions.userId, userId),
+        eq(prescriptions.status, "pending"),
+      ))
+      .returning();
+    return prescription;
+  }
+
+  // Puts a rejected prescription back in the review queue with new images
+  async resubmitPrescription(
+    id: string,
+    userId: string,
+    updates: { imageUrls: string[]; medications?: string }
+  ): Promise<Prescription | undefined> {
+    const [prescription] = await db.update(prescriptions)
+      .set({
+        ...updates,
+        status: "pending",
+        reviewNotes: null,
+        reviewedBy: null,
+        reviewedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(prescriptions.id, id),
+        eq(prescriptions.userId, userId),
+        eq(prescriptions.status, "rejected"),
+      ))
+      .returning();
+    return prescription;
+  }
+
+  // Audit log operations
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [created] = await db.insert(auditLog).values(entry).returning();
+    return created;
+  }
+
+  async createAuditLogEntries(entries: InsertAuditLogEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    await db.insert(auditLog).values(entries);
+  }
+
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntryWithActor[]> {
+    const query = db
+      .select({
+        entry: auditLog,
+        actor: {
+          id: users.id,
+          username: users.username,
+          email: users.email,
+        },
+      })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.actorId, users.id))
+      .where(and(...auditLogFilterConditions(filters)))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .$dynamic();
+
+    if (filters.limit !== undefined) {
+      query.limit(filters.limit);
+    }
+    if (filters.offset !== undefined) {
+      query.offset(filters.offset);
+    }
+
+    const rows = await query;
+    return rows.map(({ entry, actor }) => ({ ...entry, actor }));
+  }
+
+  async countAuditLog(filters: AuditLogFilters = {}): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(auditLog)
+      .where(and(...auditLogFilterConditions(filters)));
+    return result.count;
+  }
 }
 
 export const storage = new DatabaseStorage();